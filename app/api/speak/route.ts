@@ -1,53 +1,130 @@
 import { NextRequest, NextResponse } from "next/server";
+import { withApiGuard } from "../../services/api-guard";
+import { getTtsProvider } from "../../services/providers";
+import { fixWavSizes } from "../../services/audio/wav";
+import { bufferToStream, streamToBuffer, synthesizeSentences } from "../../services/providers/tts-provider";
+import { getTtsCache, ttsCacheKey } from "../../services/tts-cache";
+import { parseSsml, SsmlDocument, SsmlError } from "../../services/ssml";
+import { parseSpeakRequest, SpeakRequestError } from "../../services/speak-request";
 
 /**
  * Text-to-Speech API Route
- * 
- * This route handles text-to-speech conversion using Web Speech API or your chosen TTS service.
+ *
+ * This route synthesizes audio on the server using the provider selected by
+ * the TTS_PROVIDER environment variable (defaults to the offline tone generator).
  */
 
 export const revalidate = 0;
 
 /**
  * POST /api/speak
- * 
- * Request body: { text: string }
- * Query params: voice (optional) - Voice name to use
- * Response: JSON response since we can't stream audio without a TTS service
+ *
+ * Request body: { text: string, ssml?: boolean, rate?: number, pitch?: number, volume?: number }
+ * Query params: voice (optional) - Voice ID listed by GET /api/voices
+ *               format (optional) - wav (default), mp3 or ogg (Opus)
+ * Errors: { error: string, code: string, field?: string, position?: number }
+ *         with codes such as TEXT_TOO_LONG, UNKNOWN_VOICE, UNSUPPORTED_FORMAT
+ *         (see services/speak-request for the schema and limits)
+ * Response: Streamed audio body (Content-Type matches the requested format),
+ *           rendered and sent one sentence at a time. Streamed WAV has an
+ *           open-ended header; use mp3 for progressive playback in browsers.
+ *           The first sentence is rendered before the response starts, so
+ *           a failing provider still gets an error response; a failure on a
+ *           later sentence ends the stream with an error.
+ *
+ * With ssml: true, text is an SSML document. It is validated (INVALID_SSML)
+ * and forwarded to providers that support SSML; other providers receive its
+ * plain text, with <break> rendered as silence. X-SSML-Mode reports which
+ * path was taken.
+ *
+ * Responses are cached by a hash of the provider, text, voice, prosody and
+ * format (see services/tts-cache). The hash is the ETag; If-None-Match gets
+ * a 304, and X-TTS-Cache reports HIT or MISS.
  */
-export async function POST(request: NextRequest) {
+async function speak(request: NextRequest) {
   try {
-    // Get the voice from query params
-    const voice = request.nextUrl.searchParams.get("voice") ?? "default";
+    const provider = getTtsProvider();
 
-    // Get the text from request body
-    const { text } = await request.json();
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new SpeakRequestError("INVALID_JSON", "Request body is not valid JSON");
+    }
+
+    // Voice and format come from the query string, text and prosody from the body
+    const { text, ssml, voice, format, rate, pitch, volume } = parseSpeakRequest(
+      body,
+      request.nextUrl.searchParams,
+      provider.voices.map(v => v.id)
+    );
+
+    console.log("TTS Request:", { voice, format, length: text.length, text: text.substring(0, 50) + "..." });
+
+    const options = { rate, pitch, volume, format };
+    const headers: Record<string, string> = { "X-TTS-Provider": provider.name };
 
-    if (!text) {
-      return NextResponse.json(
-        { error: "Text is required" },
-        { status: 400 }
-      );
+    // Validate SSML before anything is served from the cache
+    let document: SsmlDocument | null = null;
+    if (ssml) {
+      try {
+        document = parseSsml(text);
+      } catch (error) {
+        if (error instanceof SsmlError) {
+          throw new SpeakRequestError("INVALID_SSML", error.message, "text", error.position);
+        }
+        throw error;
+      }
+      headers["X-SSML-Mode"] = provider.synthesizeSsml ? "native" : "plain-text";
     }
 
-    console.log("TTS Request:", { voice, text: text.substring(0, 50) + "..." });
-
-    // Since we removed Deepgram, we can't generate server-side audio
-    // The TTS will need to be handled client-side using Web Speech API
-    // or you can implement a new TTS service here
-    
-    return NextResponse.json({
-      success: true,
-      message: "TTS request received. Use client-side Web Speech API for audio generation.",
-      text: text,
-      voice: voice
+    const cache = getTtsCache();
+    const key = ttsCacheKey({ provider: provider.name, text, ssml: Boolean(ssml), voice, rate, pitch, volume, format });
+    headers["ETag"] = `"${key}"`;
+    headers["Cache-Control"] = `private, max-age=${cache.ttl}`;
+
+    // The ETag is a hash of the request, so a match means the client already has this audio
+    if (matchesEtag(request.headers.get("If-None-Match"), key)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    const cached = await cache.get(key);
+    if (cached) {
+      return new Response(bufferToStream(cached.data), {
+        headers: { ...headers, "Content-Type": cached.contentType, "X-TTS-Cache": "HIT" },
+      });
+    }
+
+    // Plain text streams sentence by sentence; native SSML is rendered whole
+    const audio = document && provider.synthesizeSsml
+      ? await provider.synthesizeSsml(text, voice, options)
+      : await synthesizeSentences(provider, document ?? text, voice, options);
+
+    // Cache a copy once the stream completes (with final WAV sizes)
+    const [responseBody, copy] = audio.stream.tee();
+    streamToBuffer(copy)
+      .then(data => cache.set(key, format === "wav" ? fixWavSizes(data) : data, audio.contentType))
+      .catch(error => console.warn("TTS response not cached:", error));
+
+    return new Response(responseBody, {
+      headers: { ...headers, "Content-Type": audio.contentType, "X-TTS-Cache": "MISS" },
     });
 
   } catch (error) {
+    if (error instanceof SpeakRequestError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+
     console.error("TTS Error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
+    const internal = new SpeakRequestError("INTERNAL_ERROR", "Internal server error");
+    return NextResponse.json(internal.toJSON(), { status: internal.status });
   }
-}
\ No newline at end of file
+}
+
+export const POST = withApiGuard("speak", speak);
+
+// If-None-Match may list several (possibly weak) ETags
+function matchesEtag(header: string | null, key: string): boolean {
+  if (!header) return false;
+  return header.split(",").some(tag => tag.trim().replace(/^W\//, "") === `"${key}"`);
+}
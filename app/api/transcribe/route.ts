@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withApiGuard } from "../../services/api-guard";
+import { decodeWav } from "../../services/audio/wav";
+import { getSttProvider } from "../../services/providers";
+
+/**
+ * Speech-to-Text API Route
+ *
+ * This route transcribes uploaded audio on the server using the provider
+ * selected by the STT_PROVIDER environment variable.
+ */
+
+export const revalidate = 0;
+
+/**
+ * POST /api/transcribe
+ *
+ * Request body: PCM WAV file (audio/wav)
+ * Query params: language (optional) - BCP-47 language code, defaults to en-US
+ * Response: { text: string, language: string, segments: TranscriptSegment[], provider: string }
+ *           (segment and word times are in seconds)
+ */
+async function transcribe(request: NextRequest) {
+  try {
+    const language = request.nextUrl.searchParams.get("language") ?? "en-US";
+
+    const body = new Uint8Array(await request.arrayBuffer());
+
+    if (body.length === 0) {
+      return NextResponse.json(
+        { error: "Audio is required" },
+        { status: 400 }
+      );
+    }
+
+    let audio;
+    try {
+      audio = decodeWav(body);
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 415 }
+      );
+    }
+
+    console.log("STT Request:", { language, seconds: audio.samples.length / audio.sampleRate });
+
+    const provider = getSttProvider();
+    const result = await provider.transcribe(audio, { language });
+
+    return NextResponse.json({ ...result, provider: provider.name });
+
+  } catch (error) {
+    console.error("STT Error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withApiGuard("transcribe", transcribe);
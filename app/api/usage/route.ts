@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { getUsage, withApiGuard } from "../../services/api-guard";
+
+/**
+ * API Usage Route
+ *
+ * Reports per-client request counters for the speech routes since the server
+ * started. Requires an admin API key (API_ADMIN_KEYS or "admin": true in API_KEYS_FILE).
+ */
+
+export const revalidate = 0;
+
+/**
+ * GET /api/usage
+ *
+ * Response: { since: string, authEnabled: boolean, counters: UsageCounter[] }
+ */
+async function usage() {
+  return NextResponse.json(getUsage());
+}
+
+export const GET = withApiGuard("usage", usage, { adminOnly: true });
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { withApiGuard } from "../../services/api-guard";
+import { getTtsProvider } from "../../services/providers";
+import type { VoicesResponse } from "../../services/voices";
+
+/**
+ * Voice Catalog API Route
+ *
+ * Lists the voices of the server TTS provider selected by the TTS_PROVIDER
+ * environment variable. Browser voices are added by the client.
+ */
+
+export const revalidate = 0;
+
+/**
+ * GET /api/voices
+ *
+ * Response: { provider: string, voices: Voice[] }
+ *           (Voice: id, name, provider, language, gender, sampleRate, styles;
+ *           see services/voices)
+ */
+async function voices() {
+  try {
+    const provider = getTtsProvider();
+    const body: VoicesResponse = { provider: provider.name, voices: [...provider.voices] };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error("Voice listing error:", error);
+    return NextResponse.json({ error: "Internal server error", code: "INTERNAL_ERROR" }, { status: 500 });
+  }
+}
+
+export const GET = withApiGuard("voices", voices);
@@ -1,7 +1,55 @@
-import { useCallback, useState, useEffect, useRef } from "react";
+import { useCallback, useMemo, useState, useEffect, useRef } from "react";
 import { SendIcon } from "./icons/SendIcon";
+import { DownloadIcon } from "./icons/DownloadIcon";
 import { useNowPlaying } from "react-nowplaying";
 import TextInput from "./TextInput";
+import FileDropZone from "./FileDropZone";
+import TranscriptEditor, { formatTimestamp } from "./TranscriptEditor";
+import ReadAlong from "./ReadAlong";
+import VoicePicker from "./VoicePicker";
+import ProfileManager from "./ProfileManager";
+import DetectedLanguages from "./DetectedLanguages";
+import VoiceCommands from "./VoiceCommands";
+import TranscriptRestore from "./TranscriptRestore";
+import LexiconEditor from "./LexiconEditor";
+import TextNormalization from "./TextNormalization";
+import { AUDIO_FORMATS, AudioFormat, audioFileName } from "../services/audio/formats";
+import { segmentsToText, TranscriptSegment } from "../services/transcript";
+import type { SpeechProgress, TTSOptions } from "../services/web-speech-tts";
+import type { DictationSession, DictationState } from "../services/dictation";
+import { isSsml, parseSsml, SsmlDocument, SsmlError } from "../services/ssml";
+import { speakErrorMessage } from "../services/speak-request";
+import {
+  BROWSER_PROVIDER,
+  findClosestVoice,
+  isServerVoice,
+  languageLabel,
+  previewSample,
+  primaryLanguage,
+  Voice,
+  voiceKey,
+} from "../services/voices";
+import { detectLanguageRuns, summarizeLanguages } from "../services/language-detect";
+import { applyDictation, commandGrammar, DictationResult, parseDictation } from "../services/voice-commands";
+import { restoreFeatures, restoreOptionsFor, RestoreOptions, restoreText } from "../services/transcript-restore";
+import { entriesForProfile, exportPls, LexiconEntry } from "../services/lexicon";
+import { DEFAULT_NORMALIZE_OPTIONS, NormalizeOptions } from "../services/text-normalizer";
+import { loadSettings, SavedVoice, saveMode, saveSettings, subscribeSettings, UserSettings } from "../services/settings";
+import {
+  applySsmlDefaults,
+  builtInProfiles,
+  createProfile,
+  exportProfiles,
+  profileForLocale,
+  SsmlDefaults,
+  VoiceProfile,
+} from "../services/voice-profiles";
+import {
+  formatTranscript,
+  TRANSCRIPT_FORMATS,
+  TranscriptFormat,
+  transcriptFileName,
+} from "../services/transcript-formats";
 
 // Fallback implementations for unsupported browsers
 const FallbackTTS = {
@@ -11,6 +59,20 @@ const FallbackTTS = {
   stop: () => {}
 };
 
+// Tags the player's uid for server speech, so voice previews get no read-along
+const SERVER_SPEECH_UID = "server-speech";
+
+// Listed when the browser has no voices of its own
+const DEFAULT_VOICE: Voice = {
+  id: "default",
+  name: "Default Voice",
+  provider: BROWSER_PROVIDER,
+  language: "",
+  gender: "unknown",
+  styles: [],
+  default: true
+};
+
 const FallbackSTT = {
   startRecognition: () => {
     alert("Speech-to-Text not supported in this browser. Try Chrome or Edge for full functionality.");
@@ -21,11 +83,26 @@ const FallbackSTT = {
   onError: () => {}
 };
 
+// Save a Blob through a temporary download link
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
 const Controls = ({ callback }: { callback: any }) => {
   const [mode, setMode] = useState<'tts' | 'stt'>('tts');
   const [text, setText] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [isRecording, setIsRecording] = useState(false);
+
+  // Dictation session state; the session keeps recognition running across
+  // browser restarts, so "recording" covers reconnecting and paused too
+  const [dictationState, setDictationState] = useState<DictationState>('idle');
+  const [dictationDuration, setDictationDuration] = useState(0);
+  const isRecording = dictationState === 'listening' || dictationState === 'reconnecting' || dictationState === 'paused';
   
   // Use separate states instead of a single object to avoid typing issues
   const [hasTTS, setHasTTS] = useState(false);
@@ -33,20 +110,134 @@ const Controls = ({ callback }: { callback: any }) => {
   const [isSupported, setIsSupported] = useState(false);
   
   // TTS States
-  const [voices, setVoices] = useState<{ value: string; label: string; default?: boolean }[]>([]);
-  const [selectedVoice, setSelectedVoice] = useState("");
+  const [voices, setVoices] = useState<Voice[]>([]);
+  const [selectedVoice, setSelectedVoice] = useState("");   // voiceKey()
+  const [favoriteVoices, setFavoriteVoices] = useState<string[]>([]);
+
+  // Voice profiles: built-in locale presets plus the user's own
+  const [userProfiles, setUserProfiles] = useState<VoiceProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState("");
+
+  // Pronunciation lexicon: global entries and entries for one profile
+  const [lexicon, setLexicon] = useState<LexiconEntry[]>([]);
   const [rate, setRate] = useState(1);
   const [pitch, setPitch] = useState(1);
   const [volume, setVolume] = useState(1);
 
+  // Playback queue state (sentence-by-sentence speech)
+  const [playbackState, setPlaybackState] = useState<'idle' | 'playing' | 'paused'>('idle');
+  const [progress, setProgress] = useState<SpeechProgress>({ index: 0, total: 0, percent: 0 });
+  const [speakingText, setSpeakingText] = useState("");
+  const [currentWord, setCurrentWord] = useState({ charIndex: -1, length: 0 });
+
+  const [ttsError, setTtsError] = useState("");
+
+  // SSML input mode
+  const [ssmlMode, setSsmlMode] = useState(false);
+
+  // Language detection: plain text is split into language runs, each spoken
+  // with a voice for its language; overrides map detected -> spoken language
+  const [autoLanguage, setAutoLanguage] = useState(true);
+  const [languageOverrides, setLanguageOverrides] = useState<Record<string, string>>({});
+
+  // Text normalization rules, and a preview of what will be spoken
+  const [normalizeOptions, setNormalizeOptions] = useState<NormalizeOptions>(DEFAULT_NORMALIZE_OPTIONS);
+  const [showSpeechPreview, setShowSpeechPreview] = useState(false);
+  const [speechPreview, setSpeechPreview] = useState("");
+
+  // Download States
+  const [spokenText, setSpokenText] = useState("");
+  const [spokenSsml, setSpokenSsml] = useState(false);
+  const [downloadFormat, setDownloadFormat] = useState<AudioFormat>('wav');
+  const [isDownloading, setIsDownloading] = useState(false);
+
   // STT States
   const [languages, setLanguages] = useState<{ value: string; label: string }[]>([]);
   const [selectedLanguage, setSelectedLanguage] = useState("en-US");
+
+  // Transcript of the current STT session (live or file): final segments
+  // and the latest interim hypothesis are kept apart
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [interimSegment, setInterimSegment] = useState<TranscriptSegment | null>(null);
+  const [sttNotice, setSttNotice] = useState("");
+
+  // Voice commands ("period", "new line", "scratch that", ...) applied to
+  // final results; "read it back" is handled once the transcript is updated
+  const [voiceCommands, setVoiceCommands] = useState(true);
+  const [readBackRequested, setReadBackRequested] = useState(false);
+
+  // Offline punctuation, casing and number restoration, by primary language
+  const [restoreSettings, setRestoreSettings] = useState<Record<string, RestoreOptions>>({});
+
+  // File Transcription States
+  const [isTranscribing, setIsTranscribing] = useState(false);
+
+  // Persisted settings: the voice the user chose (which may not be installed
+  // here), and whether the saved settings have been applied yet
+  const [savedVoice, setSavedVoice] = useState<SavedVoice | null>(null);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
   
   const sttRef = useRef<any>(null);
+  const dictationRef = useRef<DictationSession | null>(null);
   const ttsRef = useRef<any>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+
+  const { stop: stopAudio, play: playAudio, uid: playingUid, player } = useNowPlaying();
+
+  // Keep the text (used by TTS mode) in sync with the edited transcript
+  useEffect(() => {
+    setText(segmentsToText(segments));
+  }, [segments]);
+
+  // Restore saved settings, then follow changes saved by other tabs.
+  // The mode stays per tab, so a tab that is recording is not switched away
+  useEffect(() => {
+    const applySettings = (settings: UserSettings) => {
+      setSavedVoice(settings.voice);
+      setRate(settings.rate);
+      setPitch(settings.pitch);
+      setVolume(settings.volume);
+      setSelectedLanguage(settings.language);
+      setFavoriteVoices(settings.favoriteVoices);
+      setUserProfiles(settings.profiles);
+      setRestoreSettings(settings.restore);
+      setLexicon(settings.lexicon);
+      setNormalizeOptions(settings.normalize);
+    };
+
+    const settings = loadSettings();
+    applySettings(settings);
+    setMode(settings.mode);
+    setSettingsLoaded(true);
+
+    return subscribeSettings(applySettings);
+  }, []);
 
-  const { stop: stopAudio, play: playAudio } = useNowPlaying();
+  useEffect(() => {
+    if (!settingsLoaded) return;
+
+    saveSettings({
+      voice: savedVoice,
+      rate,
+      pitch,
+      volume,
+      language: selectedLanguage,
+      favoriteVoices,
+      profiles: userProfiles,
+      restore: restoreSettings,
+      lexicon,
+      normalize: normalizeOptions
+    });
+  }, [settingsLoaded, savedVoice, rate, pitch, volume, selectedLanguage, favoriteVoices, userProfiles, restoreSettings, lexicon, normalizeOptions]);
+
+  // Select the saved voice, or the closest available one (same language,
+  // then the default voice) when it is not installed in this browser
+  useEffect(() => {
+    const voice = findClosestVoice(voices, savedVoice);
+    if (voice) {
+      setSelectedVoice(voiceKey(voice));
+    }
+  }, [voices, savedVoice]);
 
   // Check browser support only on client side
   useEffect(() => {
@@ -92,15 +283,33 @@ const Controls = ({ callback }: { callback: any }) => {
       try {
         // Dynamic imports to avoid errors in unsupported browsers
         if (hasTTS) {
-          const { TextToSpeech, speakText } = await import("../services/web-speech-tts");
-          ttsRef.current = new TextToSpeech();
+          const { TextToSpeech } = await import("../services/web-speech-tts");
+          const tts = new TextToSpeech();
+          tts.onStart(() => setPlaybackState('playing'));
+          tts.onEnd(() => setPlaybackState('idle'));
+          tts.onError(() => setPlaybackState('idle'));
+          tts.onProgress(setProgress);
+          tts.onWord((charIndex: number, length: number) => setCurrentWord({ charIndex, length }));
+          ttsRef.current = tts;
         } else {
           ttsRef.current = FallbackTTS;
         }
 
         if (hasSTT) {
           const { SpeechToText } = await import("../services/web-speech-stt");
+          const { DictationSession } = await import("../services/dictation");
           sttRef.current = new SpeechToText();
+
+          const session = new DictationSession(sttRef.current);
+          session.onStateChange((state) => {
+            setDictationState(state);
+            setDictationDuration(session.getDuration());
+            if (state === 'error') {
+              setSttNotice(session.getError());
+            }
+          });
+          session.onInterim(setInterimSegment);
+          dictationRef.current = session;
         } else {
           sttRef.current = FallbackSTT;
         }
@@ -122,6 +331,10 @@ const Controls = ({ callback }: { callback: any }) => {
     }
 
     return () => {
+      if (dictationRef.current) {
+        dictationRef.current.stop();
+        dictationRef.current = null;
+      }
       if (sttRef.current && sttRef.current.stopRecognition) {
         sttRef.current.stopRecognition();
       }
@@ -136,23 +349,25 @@ const Controls = ({ callback }: { callback: any }) => {
     const loadData = async () => {
       if (!isSupported) {
         // Fallback data for unsupported browsers
-        setVoices([{ value: "default", label: "Default Voice" }]);
+        setVoices([DEFAULT_VOICE]);
         setLanguages([{ value: "en-US", label: "English (US)" }]);
         return;
       }
 
       try {
         if (hasTTS) {
-          const { getAvailableVoices } = await import("../services/web-speech-tts");
-          const availableVoices = await getAvailableVoices();
-          setVoices(availableVoices);
-          
-          if (availableVoices.length > 0) {
-            const defaultVoice = availableVoices.find(v => v.default) || availableVoices[0];
-            setSelectedVoice(defaultVoice.value);
-          }
+          const { getAvailableVoices, getServerVoices } = await import("../services/web-speech-tts");
+          // The picker still works with browser voices if the server is unreachable
+          const [browserVoices, serverVoices] = await Promise.all([
+            getAvailableVoices(),
+            getServerVoices().catch(error => {
+              console.warn("Server voices unavailable:", error);
+              return [] as Voice[];
+            })
+          ]);
+          setVoices([...(browserVoices.length > 0 ? browserVoices : [DEFAULT_VOICE]), ...serverVoices]);
         } else {
-          setVoices([{ value: "default", label: "Default Voice" }]);
+          setVoices([DEFAULT_VOICE]);
         }
 
         if (hasSTT) {
@@ -165,7 +380,7 @@ const Controls = ({ callback }: { callback: any }) => {
       } catch (error) {
         console.error("Failed to load speech data:", error);
         // Fallback data
-        setVoices([{ value: "default", label: "Default Voice" }]);
+        setVoices([DEFAULT_VOICE]);
         setLanguages([{ value: "en-US", label: "English (US)" }]);
       }
     };
@@ -175,12 +390,144 @@ const Controls = ({ callback }: { callback: any }) => {
     }
   }, [isSupported, hasTTS, hasSTT]);
 
+  // TTS: The selected voice decides the engine: browser voices speak locally,
+  // server voices are streamed from /api/speak
+  const currentVoice = useMemo(
+    () => voices.find(voice => voiceKey(voice) === selectedVoice),
+    [voices, selectedVoice]
+  );
+  const engine = currentVoice && isServerVoice(currentVoice) ? 'server' : 'browser';
+
+  // Language-independent voices ('und') speak the selected language
+  const voiceLanguage = currentVoice?.language && currentVoice.language !== 'und' ? currentVoice.language : selectedLanguage;
+
+  // TTS: Validate SSML as it is typed (warnings list markup the browser cannot honour)
+  const ssmlResult = useMemo<{ document?: SsmlDocument; error?: string }>(() => {
+    if (!ssmlMode || !text.trim()) return {};
+    try {
+      return { document: parseSsml(text) };
+    } catch (error) {
+      return { error: error instanceof SsmlError ? error.message : String(error) };
+    }
+  }, [ssmlMode, text]);
+
+  // TTS: Plain text picks up the active profile's SSML defaults, if it has any
+  const profiles = useMemo(() => [...builtInProfiles(), ...userProfiles], [userProfiles]);
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+  const activeLexicon = useMemo(() => entriesForProfile(lexicon, activeProfileId || undefined), [lexicon, activeProfileId]);
+
+  const speechInput = useMemo(() => {
+    const profileSsml = ssmlMode ? null : applySsmlDefaults(text.trim(), activeProfile?.ssml);
+    return { text: profileSsml ?? text.trim(), ssml: ssmlMode || profileSsml !== null };
+  }, [text, ssmlMode, activeProfile]);
+
+  // TTS: Detected languages (browser voices only; server voices are single-language)
+  const detectionFallback = primaryLanguage(voiceLanguage);
+  const detectLanguages = engine === 'browser' && autoLanguage && !speechInput.ssml;
+  const detectedLanguages = useMemo(
+    () => detectLanguages ? summarizeLanguages(detectLanguageRuns(speechInput.text, { fallback: detectionFallback })) : [],
+    [detectLanguages, speechInput, detectionFallback]
+  );
+
+  const handleLanguageOverride = useCallback((language: string, override: string | null) => {
+    setLanguageOverrides(current => {
+      const { [language]: _, ...rest } = current;
+      return override ? { ...rest, [language]: override } : rest;
+    });
+  }, []);
+
+  const handleSsmlToggle = useCallback((enabled: boolean) => {
+    setSsmlMode(enabled);
+
+    // Wrap existing plain text so it stays valid markup
+    if (enabled && text.trim() && !isSsml(text)) {
+      const escaped = text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+      setText(`<speak>${escaped}</speak>`);
+    }
+  }, [text]);
+
+  // TTS: Options for speaking the current input; browser voices get a run per detected language
+  const speechOptions = useCallback(async (): Promise<TTSOptions> => {
+    const options = {
+      text: speechInput.text,
+      voice: currentVoice?.id,
+      rate: rate,
+      pitch: pitch,
+      volume: volume,
+      ssml: speechInput.ssml,
+      lexicon: activeLexicon,
+      normalize: normalizeOptions
+    };
+
+    if (engine === 'server') {
+      return { ...options, lang: voiceLanguage };
+    }
+
+    const runs = detectLanguages
+      ? await ttsRef.current.routeLanguages(speechInput.text, {
+          overrides: languageOverrides,
+          preferredVoice: currentVoice?.id,
+          fallback: detectionFallback
+        })
+      : undefined;
+    return { ...options, lang: selectedLanguage, runs };
+  }, [speechInput, currentVoice, rate, pitch, volume, activeLexicon, normalizeOptions, engine, voiceLanguage, selectedLanguage, detectLanguages, languageOverrides, detectionFallback]);
+
+  // TTS: Play server-rendered audio, streamed so playback starts on the first sentence
+  const playServerAudio = useCallback(async () => {
+    ttsRef.current.stop();
+
+    // The Visualizer taps the player through this context; create it on the
+    // user's click so the browser lets it run
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || window.webkitAudioContext)();
+      callback(audioContextRef.current);
+    }
+    await audioContextRef.current.resume();
+
+    const options = await speechOptions();
+    setSpeakingText(speechInput.ssml ? parseSsml(speechInput.text).text : speechInput.text);
+    setCurrentWord({ charIndex: -1, length: 0 });
+
+    const { supportsStreamedAudio } = await import("../services/web-speech-tts");
+    if (supportsStreamedAudio()) {
+      const onError = (error: Error) => setTtsError(speakErrorMessage(error));
+      await playAudio(ttsRef.current.streamAudio(options, onError), "audio/mpeg", SERVER_SPEECH_UID);
+    } else {
+      const { blob, mimeType } = await ttsRef.current.synthesizeAudio(options);
+      await playAudio(blob, mimeType, SERVER_SPEECH_UID);
+    }
+
+    setSpokenText(speechInput.text);
+    setSpokenSsml(speechInput.ssml);
+  }, [speechInput, speechOptions, callback, playAudio]);
+
+  // TTS: Server audio has no word boundaries; follow the player's position with estimated timing
+  useEffect(() => {
+    if (playingUid !== SERVER_SPEECH_UID || !player) return;
+
+    let cancelled = false;
+    let update: (() => void) | null = null;
+    import("../services/web-speech-tts").then(({ estimateWordAt }) => {
+      if (cancelled) return;
+      update = () => setCurrentWord(estimateWordAt(speakingText, player.currentTime, player.duration, rate));
+      player.addEventListener("timeupdate", update);
+    });
+
+    return () => {
+      cancelled = true;
+      if (update) player.removeEventListener("timeupdate", update);
+    };
+  }, [playingUid, player, speakingText, rate]);
+
   // TTS: Convert text to speech
   const handleTextToSpeech = useCallback(async () => {
     if (!text?.trim()) return;
+    if (ssmlMode && !ssmlResult.document) return;
 
     try {
       setIsLoading(true);
+      setTtsError("");
       stopAudio();
 
       if (!hasTTS) {
@@ -188,26 +535,210 @@ const Controls = ({ callback }: { callback: any }) => {
         return;
       }
 
-      const { speakText } = await import("../services/web-speech-tts");
-      
-      speakText({
-        text: text.trim(),
-        voice: selectedVoice,
+      if (!ttsRef.current) {
+        throw new Error("Speech synthesis not initialized");
+      }
+
+      if (engine === 'server') {
+        await playServerAudio();
+        return;
+      }
+
+      setSpeakingText(speechInput.ssml ? parseSsml(speechInput.text).text : speechInput.text);
+
+      const options = await speechOptions();
+      setCurrentWord({ charIndex: -1, length: 0 });
+
+      ttsRef.current.speak(options);
+
+      setSpokenText(speechInput.text);
+      setSpokenSsml(speechInput.ssml);
+      console.log("TTS completed successfully");
+
+    } catch (error) {
+      console.error("Text-to-speech failed:", error);
+      setTtsError(speakErrorMessage(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [text, speechInput, ssmlMode, ssmlResult, engine, playServerAudio, speechOptions, hasTTS, stopAudio]);
+
+  // TTS: Show what the voice will say for the current input while the preview is open
+  useEffect(() => {
+    if (!showSpeechPreview || !ttsRef.current?.previewSpeech) return;
+
+    let cancelled = false;
+    speechOptions()
+      .then(options => ttsRef.current.previewSpeech(options, engine === 'server'))
+      // Invalid SSML is reported under the text input
+      .catch(() => "")
+      .then(preview => {
+        if (!cancelled) setSpeechPreview(preview);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showSpeechPreview, speechOptions, engine]);
+
+  // TTS: Playback queue controls
+  const handlePauseResume = useCallback(() => {
+    if (!ttsRef.current) return;
+
+    if (playbackState === 'paused') {
+      ttsRef.current.resume();
+      setPlaybackState('playing');
+    } else {
+      ttsRef.current.pause();
+      setPlaybackState('paused');
+    }
+  }, [playbackState]);
+
+  const handleStopSpeech = useCallback(() => {
+    ttsRef.current?.stop();
+    stopAudio();
+    setPlaybackState('idle');
+  }, [stopAudio]);
+
+  const handleSkip = useCallback(() => {
+    ttsRef.current?.skip?.();
+    setPlaybackState('playing');
+  }, []);
+
+  const handlePrevious = useCallback(() => {
+    ttsRef.current?.previous?.();
+    setPlaybackState('playing');
+  }, []);
+
+  // TTS: Switching between browser and server voices stops the other engine
+  const handleVoiceChange = useCallback((key: string) => {
+    const voice = voices.find(v => voiceKey(v) === key);
+    if (voice && currentVoice && isServerVoice(voice) !== isServerVoice(currentVoice)) {
+      handleStopSpeech();
+    }
+    setSelectedVoice(key);
+    if (voice) {
+      setSavedVoice({ key, name: voice.name, language: voice.language });
+    }
+  }, [voices, currentVoice, handleStopSpeech]);
+
+  // TTS: Speak a short sample in a voice without touching the text box
+  const handlePreviewVoice = useCallback(async (voice: Voice) => {
+    const sample = previewSample(voice.language);
+
+    try {
+      setTtsError("");
+      handleStopSpeech();
+
+      const { speakText, synthesizeSpeech } = await import("../services/web-speech-tts");
+      if (isServerVoice(voice)) {
+        const { blob, mimeType } = await synthesizeSpeech({ text: sample, voice: voice.id, rate, pitch, volume });
+        await playAudio(blob, mimeType);
+      } else {
+        // Cut off an earlier preview, which plays outside the main queue
+        window.speechSynthesis.cancel();
+        speakText({ text: sample, voice: voice.id, lang: voice.language || undefined, rate, pitch, volume });
+      }
+    } catch (error) {
+      console.error("Voice preview failed:", error);
+      setTtsError(speakErrorMessage(error));
+    }
+  }, [rate, pitch, volume, handleStopSpeech, playAudio]);
+
+  // TTS: Voice profiles
+  const applyProfile = useCallback((profile: VoiceProfile) => {
+    setRate(profile.rate);
+    setPitch(profile.pitch);
+    setVolume(profile.volume);
+    setSelectedLanguage(profile.language);
+    if (profile.voice) {
+      setSavedVoice(profile.voice);
+    }
+    setActiveProfileId(profile.id);
+  }, []);
+
+  const handleCreateProfile = useCallback((name: string, ssml?: SsmlDefaults) => {
+    const profile = createProfile(name, {
+      voice: savedVoice,
+      rate,
+      pitch,
+      volume,
+      language: selectedLanguage,
+      ssml
+    });
+    setUserProfiles(current => [...current, profile]);
+    setActiveProfileId(profile.id);
+  }, [savedVoice, rate, pitch, volume, selectedLanguage]);
+
+  const handleRenameProfile = useCallback((id: string, name: string) => {
+    setUserProfiles(current => current.map(profile => profile.id === id ? { ...profile, name } : profile));
+  }, []);
+
+  const handleDeleteProfile = useCallback((id: string) => {
+    setUserProfiles(current => current.filter(profile => profile.id !== id));
+    setActiveProfileId(current => current === id ? "" : current);
+    setLexicon(current => current.filter(entry => entry.profileId !== id));
+  }, []);
+
+  const handleImportProfiles = useCallback((imported: VoiceProfile[]) => {
+    setUserProfiles(current => [...current, ...imported]);
+  }, []);
+
+  const handleExportProfiles = useCallback(() => {
+    const blob = new Blob([exportProfiles(userProfiles)], { type: "application/json" });
+    downloadBlob(blob, "voice-profiles.json");
+  }, [userProfiles]);
+
+  // TTS: Export lexicon entries as a PLS file, in their profile's language
+  const handleExportLexicon = useCallback((entries: LexiconEntry[], profileId?: string) => {
+    const language = profiles.find(profile => profile.id === profileId)?.language ?? selectedLanguage;
+    const blob = new Blob([exportPls(entries, language)], { type: "application/pls+xml" });
+    downloadBlob(blob, "lexicon.pls");
+  }, [profiles, selectedLanguage]);
+
+  // Switching locale applies its profile: the user's own for that locale,
+  // otherwise the built-in preset
+  const handleLanguageChange = useCallback((locale: string) => {
+    setSelectedLanguage(locale);
+    const profile = profileForLocale(profiles, locale);
+    if (profile) {
+      applyProfile(profile);
+    }
+  }, [profiles, applyProfile]);
+
+  // TTS: Download the last synthesized text as an audio file
+  const handleDownload = useCallback(async () => {
+    // Browser voices cannot be rendered to a file
+    if (!spokenText || engine !== 'server' || !currentVoice) return;
+
+    try {
+      setIsDownloading(true);
+      setTtsError("");
+
+      const { synthesizeSpeech } = await import("../services/web-speech-tts");
+      const { blob } = await synthesizeSpeech({
+        text: spokenText,
+        voice: currentVoice.id,
         rate: rate,
         pitch: pitch,
         volume: volume,
-        lang: selectedLanguage
+        format: downloadFormat,
+        ssml: spokenSsml,
+        lang: voiceLanguage,
+        lexicon: activeLexicon,
+        normalize: normalizeOptions
       });
 
-      console.log("TTS completed successfully");
+      const name = spokenSsml ? parseSsml(spokenText).text : spokenText;
+      downloadBlob(blob, audioFileName(name, downloadFormat));
 
     } catch (error) {
-      console.error("Text-to-speech failed:", error);
-      alert("Text-to-speech service unavailable.");
+      console.error("Audio download failed:", error);
+      setTtsError(speakErrorMessage(error));
     } finally {
-      setIsLoading(false);
+      setIsDownloading(false);
     }
-  }, [text, selectedVoice, rate, pitch, volume, selectedLanguage, hasTTS, stopAudio]);
+  }, [spokenText, spokenSsml, engine, currentVoice, rate, pitch, volume, downloadFormat, voiceLanguage, activeLexicon, normalizeOptions]);
 
   // STT: Start recording
   const startRecording = useCallback(async () => {
@@ -224,73 +755,154 @@ const Controls = ({ callback }: { callback: any }) => {
         return;
       }
 
-      if (!sttRef.current) {
+      if (!dictationRef.current) {
         throw new Error("Speech recognition not initialized");
       }
 
-      setIsRecording(true);
-      setText(""); // Clear previous text
+      setSegments([]); // Clear previous transcript
+      setInterimSegment(null);
+      setSttNotice("");
 
-      // Set up real-time result handler
-      sttRef.current.onResult((transcript: string, isFinal: boolean) => {
-        console.log("STT Result:", { transcript, isFinal });
-        
-        if (isFinal && transcript) {
-          setText(prev => {
-            // Remove any interim results and add final transcript
-            const cleanText = prev.replace(/\[.*?\]/g, '').trim();
-            return cleanText + (cleanText ? ' ' : '') + transcript;
-          });
-        } else if (transcript) {
-          // Show interim results in brackets
-          setText(prev => {
-            const withoutInterim = prev.replace(/\[.*?\]/g, '').trim();
-            return withoutInterim + (withoutInterim ? ' ' : '') + `[${transcript}]`;
-          });
-        }
-      });
+      // Set up the final result handler, applying voice commands and then
+      // restoring punctuation, casing and numbers
+      const session = dictationRef.current;
+      const grammar = voiceCommands ? commandGrammar(selectedLanguage) : null;
+      const restore = restoreOptionsFor(restoreSettings, selectedLanguage);
+      session.onSegment((segment: TranscriptSegment) => {
+        const result: DictationResult = grammar
+          ? parseDictation(segment.text, grammar)
+          : { kind: 'text', text: segment.text, attach: '' };
 
-      sttRef.current.onError((error: string) => {
-        console.error("Speech recognition error:", error);
-        if (error === 'not-allowed') {
-          alert('Microphone permission denied. Please allow microphone access in your browser settings.');
-        } else if (error === 'no-speech') {
-          // This is normal - no speech detected
-          console.log('No speech detected');
-          setText("No speech detected. Please try again.");
-        } else if (error === 'audio-capture') {
-          alert('No microphone found. Please check your microphone connection.');
-        } else {
-          alert(`Speech recognition error: ${error}`);
+        if (result.kind === 'control') {
+          console.log("Voice command:", result.action);
+          if (result.action === 'stopListening') {
+            session.stop();
+          } else {
+            // Pause so the microphone does not pick up the read-back
+            session.pause();
+            setReadBackRequested(true);
+          }
+          return;
         }
-        setIsRecording(false);
-      });
+        setSegments(prev => {
+          if (result.kind !== 'text') return applyDictation(prev, segment, result);
 
-      await sttRef.current.startRecognition({
-        language: selectedLanguage,
-        interimResults: true
+          const previous = (prev[prev.length - 1]?.text ?? '') + result.attach;
+          const text = restoreText(result.text, selectedLanguage, restore, previous);
+          return applyDictation(prev, segment, { ...result, text });
+        });
       });
 
+      await session.start(selectedLanguage);
       console.log("STT recording started");
 
     } catch (error) {
       console.error("Error starting recording:", error);
-      alert("Speech recognition failed. Please try again.");
-      setIsRecording(false);
+      // The session reports its own start failures through the 'error' state
+      if (dictationRef.current?.getState() !== 'error') {
+        alert("Speech recognition failed. Please try again.");
+      }
+    }
+  }, [selectedLanguage, hasSTT, voiceCommands, restoreSettings]);
+
+  // STT: Read the transcript aloud ("read it back")
+  useEffect(() => {
+    if (!readBackRequested) return;
+    setReadBackRequested(false);
+
+    const transcript = segmentsToText(segments);
+    if (transcript && hasTTS && ttsRef.current?.speak) {
+      ttsRef.current.stop();
+      ttsRef.current.speak({
+        text: transcript,
+        lang: selectedLanguage,
+        rate,
+        pitch,
+        volume,
+        lexicon: activeLexicon,
+        normalize: normalizeOptions
+      });
     }
-  }, [selectedLanguage, hasSTT]);
+  }, [readBackRequested, segments, hasTTS, selectedLanguage, rate, pitch, volume, activeLexicon, normalizeOptions]);
 
-  // STT: Stop recording
+  // STT: Stop recording (ends the dictation session in any state)
   const stopRecording = useCallback(() => {
-    if (sttRef.current && isRecording) {
-      sttRef.current.stopRecognition();
-      setIsRecording(false);
-      // Remove interim results brackets when stopping
-      setText(prev => prev.replace(/\[.*?\]/g, '').trim());
+    if (dictationRef.current && isRecording) {
+      dictationRef.current.stop();
       console.log("STT recording stopped");
     }
   }, [isRecording]);
 
+  // STT: Pause or resume the dictation session; the transcript timeline
+  // continues where it left off
+  const togglePauseRecording = useCallback(async () => {
+    const session = dictationRef.current;
+    if (!session) return;
+
+    if (dictationState === 'paused') {
+      try {
+        await session.resume();
+      } catch (error) {
+        console.error("Error resuming recording:", error);
+      }
+    } else {
+      session.pause();
+    }
+  }, [dictationState]);
+
+  // STT: Tick the session clock while listening
+  useEffect(() => {
+    if (dictationState !== 'listening') return;
+
+    const timer = setInterval(() => {
+      setDictationDuration(dictationRef.current?.getDuration() ?? 0);
+    }, 100);
+    return () => clearInterval(timer);
+  }, [dictationState]);
+
+  // STT: Transcribe an uploaded audio file on the server
+  const handleFileTranscription = useCallback(async (file: File) => {
+    if (isRecording) return;
+
+    try {
+      setIsTranscribing(true);
+      setSegments([]);
+      setInterimSegment(null);
+      setSttNotice("");
+
+      const { transcribeAudioFile } = await import("../services/web-speech-stt");
+      const result = await transcribeAudioFile(file, selectedLanguage);
+
+      setSegments(result.segments);
+      if (result.segments.length === 0) {
+        setSttNotice("No speech detected in this file.");
+      }
+      console.log("File transcription completed:", { file: file.name, segments: result.segments.length });
+
+    } catch (error) {
+      console.error("File transcription failed:", error);
+      alert(`File transcription failed: ${(error as Error).message}`);
+    } finally {
+      setIsTranscribing(false);
+    }
+  }, [isRecording, selectedLanguage]);
+
+  // STT: Inline correction of a final segment
+  const handleSegmentEdit = useCallback((index: number, newText: string) => {
+    setSegments(prev => prev.map((segment, i) => (
+      i === index
+        ? { ...segment, text: newText, alternatives: [{ text: newText }, ...segment.alternatives] }
+        : segment
+    )));
+  }, []);
+
+  // STT: Export the session transcript
+  const handleTranscriptExport = useCallback((format: TranscriptFormat) => {
+    const content = formatTranscript(segments, format, selectedLanguage);
+    const blob = new Blob([content], { type: `${TRANSCRIPT_FORMATS[format].contentType};charset=utf-8` });
+    downloadBlob(blob, transcriptFileName(segments, format));
+  }, [segments, selectedLanguage]);
+
   const handleSubmit = useCallback(() => {
     if (mode === 'tts') {
       handleTextToSpeech();
@@ -304,9 +916,11 @@ const Controls = ({ callback }: { callback: any }) => {
       }
       if (ttsRef.current?.stop) {
         ttsRef.current.stop();
+        setPlaybackState('idle');
       }
     }
     setMode(newMode);
+    saveMode(newMode);
   }, [mode, isRecording, stopRecording]);
 
   // Show loading state while checking browser support
@@ -415,19 +1029,43 @@ const Controls = ({ callback }: { callback: any }) => {
       {/* TTS Controls */}
       {mode === 'tts' && hasTTS && (
         <div className="flex flex-wrap gap-4 items-center justify-center p-4 bg-gray-900 rounded-lg">
+          <div className="flex flex-col gap-2 w-full items-center">
+            <label className="text-sm text-gray-300">Profile</label>
+            <ProfileManager
+              profiles={profiles}
+              activeId={activeProfileId}
+              onApply={applyProfile}
+              onCreate={handleCreateProfile}
+              onRename={handleRenameProfile}
+              onDelete={handleDeleteProfile}
+              onImport={handleImportProfiles}
+              onExport={handleExportProfiles}
+            />
+            <LexiconEditor
+              entries={lexicon}
+              profiles={profiles}
+              activeProfileId={activeProfileId}
+              onChange={setLexicon}
+              onExport={handleExportLexicon}
+            />
+            <TextNormalization
+              options={normalizeOptions}
+              onChange={setNormalizeOptions}
+              preview={showSpeechPreview ? speechPreview : null}
+              onPreviewToggle={setShowSpeechPreview}
+            />
+          </div>
+
           <div className="flex flex-col gap-2">
             <label className="text-sm text-gray-300">Voice</label>
-            <select 
+            <VoicePicker
+              voices={voices}
               value={selectedVoice}
-              onChange={(e) => setSelectedVoice(e.target.value)}
-              className="px-3 py-2 bg-gray-800 text-white rounded border border-gray-600 min-w-40"
-            >
-              {voices.map(voice => (
-                <option key={voice.value} value={voice.value}>
-                  {voice.label}
-                </option>
-              ))}
-            </select>
+              onChange={handleVoiceChange}
+              onPreview={handlePreviewVoice}
+              favorites={favoriteVoices}
+              onFavoritesChange={setFavoriteVoices}
+            />
           </div>
 
           <div className="flex flex-col gap-2">
@@ -468,6 +1106,24 @@ const Controls = ({ callback }: { callback: any }) => {
               className="w-24"
             />
           </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={ssmlMode}
+              onChange={(e) => handleSsmlToggle(e.target.checked)}
+            />
+            SSML
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={autoLanguage}
+              onChange={(e) => setAutoLanguage(e.target.checked)}
+            />
+            Detect language
+          </label>
         </div>
       )}
 
@@ -478,7 +1134,7 @@ const Controls = ({ callback }: { callback: any }) => {
             <label className="text-sm text-gray-300">Language</label>
             <select 
               value={selectedLanguage}
-              onChange={(e) => setSelectedLanguage(e.target.value)}
+              onChange={(e) => handleLanguageChange(e.target.value)}
               className="px-3 py-2 bg-gray-800 text-white rounded border border-gray-600"
             >
               {languages.map(lang => (
@@ -488,6 +1144,50 @@ const Controls = ({ callback }: { callback: any }) => {
               ))}
             </select>
           </div>
+
+          <VoiceCommands
+            enabled={voiceCommands}
+            onToggle={setVoiceCommands}
+            grammar={commandGrammar(selectedLanguage)}
+            disabled={isRecording}
+          />
+
+          <TranscriptRestore
+            features={restoreFeatures(selectedLanguage)}
+            options={restoreOptionsFor(restoreSettings, selectedLanguage)}
+            onChange={(options) => setRestoreSettings(prev => ({ ...prev, [primaryLanguage(selectedLanguage)]: options }))}
+            languageName={languageLabel(selectedLanguage)}
+            disabled={isRecording}
+          />
+        </div>
+      )}
+
+      {/* File Transcription */}
+      {mode === 'stt' && (
+        <FileDropZone
+          onFile={handleFileTranscription}
+          onReject={(file) => alert(`Unsupported file: ${file.name}. Please use WAV, MP3, WebM or OGG.`)}
+          disabled={isRecording || isTranscribing}
+          label={isTranscribing ? "Transcribing audio file..." : undefined}
+        />
+      )}
+
+      {/* Transcript Export */}
+      {mode === 'stt' && !isRecording && segments.length > 0 && (
+        <div className="flex flex-wrap gap-2 items-center justify-center">
+          <span className="text-sm text-gray-400">Export transcript:</span>
+          {(Object.keys(TRANSCRIPT_FORMATS) as TranscriptFormat[]).map(format => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => handleTranscriptExport(format)}
+              title={TRANSCRIPT_FORMATS[format].label}
+              className="px-3 py-1 bg-gray-900 text-gray-300 hover:text-white text-sm rounded-full flex items-center gap-1 transition-all"
+            >
+              <DownloadIcon className="w-4 h-4 fill-none" />
+              {TRANSCRIPT_FORMATS[format].extension.toUpperCase()}
+            </button>
+          ))}
         </div>
       )}
 
@@ -512,19 +1212,28 @@ const Controls = ({ callback }: { callback: any }) => {
       <div className="flex bg-[#101014] rounded-full">
         <div className="flex-grow rounded-tl-[2rem] rounded-bl-[2rem] bg-gradient-to-l from-[#13EF93]/50 via-[#13EF93]/80 to-[#149AFB]/80 ps-0.5 py-0.5 inline">
           <div className="bg-[#101014] h-full rounded-tl-[2rem] rounded-bl-[2rem]">
-            <TextInput
-              value={text}
-              onChange={setText}
-              onSubmit={handleSubmit}
-              placeholder={
-                mode === 'tts' 
-                  ? "Enter text to convert to speech..." 
-                  : isRecording 
-                    ? "Listening... Speak now..." 
-                    : "Click the microphone to start speaking..."
-              }
-              disabled={mode === 'stt' && isRecording}
-            />
+            {mode === 'tts' ? (
+              <TextInput
+                value={text}
+                onChange={setText}
+                onSubmit={handleSubmit}
+                placeholder={ssmlMode ? undefined : "Enter text to convert to speech..."}
+                ssml={ssmlMode}
+              />
+            ) : (
+              <TranscriptEditor
+                segments={segments}
+                interim={interimSegment}
+                onEdit={handleSegmentEdit}
+                placeholder={
+                  dictationState === 'paused'
+                    ? "Paused. Click Resume to continue..."
+                    : isRecording
+                    ? "Listening... Speak now..."
+                    : sttNotice || "Click the microphone to start speaking..."
+                }
+              />
+            )}
           </div>
         </div>
 
@@ -535,11 +1244,12 @@ const Controls = ({ callback }: { callback: any }) => {
             disabled={
               isLoading || 
               (mode === 'tts' && !text?.trim()) ||
+              (mode === 'tts' && ssmlMode && Boolean(ssmlResult.error)) ||
               (mode === 'tts' && !hasTTS) ||
               (mode === 'stt' && !hasSTT)
             }
             className={`w-16 md:w-24 h-full py-2 md:py-4 px-2 rounded-tr-[2rem] rounded-br-[2rem] font-bold bg-[#101014] text-light-900 text-sm sm:text-base flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed transition-all ${
-              isRecording ? 'animate-pulse bg-red-500' : ''
+              dictationState === 'listening' ? 'animate-pulse bg-red-500' : isRecording ? 'bg-red-500' : ''
             }`}
           >
             {isLoading ? (
@@ -555,12 +1265,155 @@ const Controls = ({ callback }: { callback: any }) => {
         </div>
       </div>
 
+      {/* TTS Errors */}
+      {mode === 'tts' && ttsError && (
+        <div className="flex gap-3 items-start justify-between p-3 rounded-lg text-sm text-left bg-red-900/50 border border-red-700">
+          <span className="text-red-200">{ttsError}</span>
+          <button
+            type="button"
+            onClick={() => setTtsError("")}
+            title="Dismiss"
+            className="text-red-300 hover:text-white"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      {/* SSML Validation */}
+      {mode === 'tts' && ssmlMode && (ssmlResult.error || (ssmlResult.document?.warnings.length ?? 0) > 0) && (
+        <div className="p-3 rounded-lg text-sm text-left space-y-1 bg-yellow-900/50 border border-yellow-700">
+          {ssmlResult.error && <div className="text-red-300">Invalid SSML: {ssmlResult.error}</div>}
+          {ssmlResult.document?.warnings.map(warning => (
+            <div key={warning} className="text-yellow-300">⚠️ {warning}</div>
+          ))}
+        </div>
+      )}
+
+      {/* Detected Languages */}
+      {mode === 'tts' && hasTTS && (
+        <DetectedLanguages
+          languages={detectedLanguages}
+          overrides={languageOverrides}
+          onOverride={handleLanguageOverride}
+        />
+      )}
+
+      {/* Server Audio Playback */}
+      {mode === 'tts' && engine === 'server' && playingUid && (
+        <div className="flex flex-col gap-2 items-center">
+          {playingUid === SERVER_SPEECH_UID && (
+            <ReadAlong
+              text={speakingText}
+              charIndex={currentWord.charIndex}
+              length={currentWord.length}
+            />
+          )}
+          <button
+            type="button"
+            onClick={handleStopSpeech}
+            title="Stop"
+            className="w-10 h-10 bg-gray-900 text-gray-300 hover:text-white rounded-full transition-all"
+          >
+            ⏹
+          </button>
+        </div>
+      )}
+
+      {/* Playback Queue Controls */}
+      {mode === 'tts' && hasTTS && playbackState !== 'idle' && (
+        <div className="flex flex-col gap-2 items-center">
+          <ReadAlong
+            text={speakingText}
+            charIndex={currentWord.charIndex}
+            length={currentWord.length}
+          />
+          <div className="flex gap-2">
+            {[
+              { label: "⏮", title: "Previous sentence", onClick: handlePrevious },
+              { label: playbackState === 'paused' ? "▶" : "⏸", title: playbackState === 'paused' ? "Resume" : "Pause", onClick: handlePauseResume },
+              { label: "⏭", title: "Next sentence", onClick: handleSkip },
+              { label: "⏹", title: "Stop", onClick: handleStopSpeech },
+            ].map(({ label, title, onClick }) => (
+              <button
+                key={title}
+                type="button"
+                title={title}
+                aria-label={title}
+                onClick={onClick}
+                className="w-10 h-10 bg-gray-900 text-gray-300 hover:text-white rounded-full transition-all"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="w-full max-w-sm h-1 bg-gray-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-[#13EF93] to-[#149AFB] transition-all"
+              style={{ width: `${progress.percent}%` }}
+            />
+          </div>
+          <div className="text-xs text-gray-400">
+            Sentence {progress.index + 1} of {progress.total} • {progress.percent}%
+          </div>
+        </div>
+      )}
+
+      {/* Download Synthesized Audio */}
+      {mode === 'tts' && hasTTS && spokenText && (
+        <div className="flex flex-wrap gap-2 items-center justify-center">
+          <select
+            value={downloadFormat}
+            onChange={(e) => setDownloadFormat(e.target.value as AudioFormat)}
+            className="px-3 py-2 bg-gray-800 text-white text-sm rounded border border-gray-600"
+          >
+            {(Object.keys(AUDIO_FORMATS) as AudioFormat[]).map(format => (
+              <option key={format} value={format}>
+                {AUDIO_FORMATS[format].label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleDownload}
+            disabled={isDownloading || engine !== 'server'}
+            className="px-4 py-2 bg-gray-900 text-gray-300 hover:text-white text-sm rounded-full flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            <DownloadIcon className="w-4 h-4 fill-none" />
+            {isDownloading ? "Preparing..." : "Download audio"}
+          </button>
+          {engine !== 'server' && (
+            <span className="w-full text-center text-xs text-gray-400">
+              Browser voices cannot be saved to a file. Choose a server voice to download audio.
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Status Messages */}
       {mode === 'stt' && isRecording && (
-        <div className="text-center">
-          <span className="text-sm text-red-400 animate-pulse">
-            🔴 Recording... Click to stop
+        <div className="flex gap-3 items-center justify-center">
+          <span
+            className={`text-sm ${dictationState === 'paused' ? 'text-gray-400' : 'text-red-400 animate-pulse'}`}
+            aria-live="polite"
+          >
+            {dictationState === 'listening' && '🔴 Recording... Click to stop'}
+            {dictationState === 'reconnecting' && '🟠 Reconnecting...'}
+            {dictationState === 'paused' && '⏸ Paused'}
           </span>
+          <span className="text-sm text-gray-400 tabular-nums">{formatTimestamp(dictationDuration)}</span>
+          <button
+            type="button"
+            onClick={togglePauseRecording}
+            className="px-3 py-1 bg-gray-900 text-gray-300 hover:text-white text-sm rounded-full transition-all"
+          >
+            {dictationState === 'paused' ? 'Resume' : 'Pause'}
+          </button>
+        </div>
+      )}
+      {mode === 'stt' && dictationState === 'error' && (
+        <div className="text-center">
+          <span className="text-sm text-red-400">{sttNotice}</span>
         </div>
       )}
 
@@ -0,0 +1,52 @@
+import { DETECTABLE_LANGUAGES, LanguageShare } from "../services/language-detect";
+import { languageLabel } from "../services/voices";
+
+interface DetectedLanguagesProps {
+  languages: LanguageShare[];
+  overrides: Record<string, string>;    // detected language -> language to speak it in
+  onOverride: (language: string, override: string | null) => void;
+}
+
+/**
+ * Detected Languages Component
+ *
+ * This component lists the languages found in the TTS text, with their share
+ * of the text, and lets the user speak a detected language as another one
+ * (for example kanji-only text detected as Chinese that is really Japanese).
+ * Each language run is spoken with a voice for its language.
+ *
+ * To remove language detection from the UI:
+ * 1. Delete this file
+ * 2. Remove the DetectedLanguages import and usage from Controls.tsx
+ */
+const DetectedLanguages: React.FC<DetectedLanguagesProps> = ({ languages, overrides, onOverride }) => {
+  if (languages.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 items-center justify-center text-sm text-gray-300">
+      <span className="text-gray-400">Detected:</span>
+      {languages.map(({ language, share }) => (
+        <label
+          key={language}
+          className="flex items-center gap-1 px-2 py-1 bg-gray-900 rounded border border-gray-700"
+        >
+          <span>{Math.round(share * 100)}%</span>
+          <select
+            value={overrides[language] ?? language}
+            onChange={(e) => onOverride(language, e.target.value === language ? null : e.target.value)}
+            aria-label={`Speak ${languageLabel(language)} as`}
+            className="bg-gray-800 text-white rounded border border-gray-600 text-xs px-1 py-0.5"
+          >
+            {Object.keys(DETECTABLE_LANGUAGES).map(code => (
+              <option key={code} value={code}>
+                {languageLabel(code)}{code === language ? " (detected)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default DetectedLanguages;
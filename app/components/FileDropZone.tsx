@@ -0,0 +1,84 @@
+import { ChangeEvent, DragEvent, useRef, useState } from "react";
+import { isSupportedAudioFile, SUPPORTED_AUDIO_EXTENSIONS } from "../services/audio/decode";
+
+interface FileDropZoneProps {
+  onFile: (file: File) => void;
+  onReject?: (file: File) => void;
+  disabled?: boolean;
+  label?: string;
+}
+
+/**
+ * File Drop Zone Component
+ *
+ * This component accepts a dragged-and-dropped (or browsed) audio file
+ * for transcription. Only WAV, MP3, WebM and OGG files are passed on.
+ *
+ * To remove file transcription:
+ * 1. Delete this file
+ * 2. Remove the FileDropZone import and usage from Controls.tsx
+ */
+const FileDropZone: React.FC<FileDropZoneProps> = ({
+  onFile,
+  onReject,
+  disabled,
+  label,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFile = (file: File | undefined) => {
+    if (!file || disabled) return;
+
+    if (isSupportedAudioFile(file)) {
+      onFile(file);
+    } else {
+      onReject?.(file);
+    }
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={() => !disabled && inputRef.current?.click()}
+      onKeyDown={(event) => {
+        if (event.key === "Enter" || event.key === " ") {
+          event.preventDefault();
+          if (!disabled) inputRef.current?.click();
+        }
+      }}
+      onDragOver={(event: DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        if (!disabled) setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(event: DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setIsDragging(false);
+        handleFile(event.dataTransfer.files[0]);
+      }}
+      className={`p-4 rounded-lg border-2 border-dashed text-sm transition-all ${
+        disabled
+          ? "border-gray-700 text-gray-500 cursor-not-allowed"
+          : isDragging
+            ? "border-[#13EF93] bg-gray-800 text-white cursor-copy"
+            : "border-gray-600 text-gray-400 hover:text-white cursor-pointer"
+      }`}
+    >
+      {label || "Drop an audio file here (WAV, MP3, WebM, OGG) or click to browse"}
+      <input
+        ref={inputRef}
+        type="file"
+        accept={`${SUPPORTED_AUDIO_EXTENSIONS.join(",")},audio/*`}
+        className="hidden"
+        onChange={(event: ChangeEvent<HTMLInputElement>) => {
+          handleFile(event.target.files?.[0]);
+          event.target.value = "";
+        }}
+      />
+    </div>
+  );
+};
+
+export default FileDropZone;
@@ -0,0 +1,208 @@
+import { ChangeEvent, useRef, useState } from "react";
+import {
+  createLexiconEntry,
+  DEFAULT_ALPHABET,
+  importPls,
+  isValidPattern,
+  LexiconEntry,
+  LexiconImportError,
+} from "../services/lexicon";
+import type { VoiceProfile } from "../services/voice-profiles";
+
+interface LexiconEditorProps {
+  entries: LexiconEntry[];          // all entries, global and per profile
+  profiles: VoiceProfile[];
+  activeProfileId: string;
+  onChange: (entries: LexiconEntry[]) => void;
+  onExport: (entries: LexiconEntry[], profileId?: string) => void;
+}
+
+const ALPHABETS = [DEFAULT_ALPHABET, "x-sampa"];
+
+/**
+ * Lexicon Editor Component
+ *
+ * This component edits the pronunciation lexicon: words (or regular
+ * expressions) mapped to a respelling spoken in their place and/or a
+ * phoneme pronunciation. Entries apply to every profile or only to the
+ * active voice profile. Voices speak the respelling when an entry has one;
+ * phonemes are only sent to server voices for entries without a respelling.
+ * Lexicons are imported and exported as PLS files.
+ *
+ * To remove the pronunciation lexicon from the UI:
+ * 1. Delete this file
+ * 2. Remove the LexiconEditor import and usage from Controls.tsx
+ */
+const LexiconEditor: React.FC<LexiconEditorProps> = ({ entries, profiles, activeProfileId, onChange, onExport }) => {
+  const [scope, setScope] = useState<"global" | "profile">("global");
+  const [grapheme, setGrapheme] = useState("");
+  const [regex, setRegex] = useState(false);
+  const [alias, setAlias] = useState("");
+  const [phoneme, setPhoneme] = useState("");
+  const [alphabet, setAlphabet] = useState(DEFAULT_ALPHABET);
+  const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+  const profileId = scope === "profile" && activeProfile ? activeProfile.id : undefined;
+  const scoped = entries.filter(entry => entry.profileId === profileId);
+
+  const handleAdd = () => {
+    const word = grapheme.trim();
+    if (!word || (!alias.trim() && !phoneme.trim())) {
+      setError("Enter a word and a respelling or a phoneme");
+      return;
+    }
+    if (regex && !isValidPattern(word)) {
+      setError("The regular expression is not valid");
+      return;
+    }
+
+    onChange([
+      ...entries,
+      createLexiconEntry({
+        grapheme: word,
+        ...(regex && { regex }),
+        ...(alias.trim() && { alias: alias.trim() }),
+        ...(phoneme.trim() && { phoneme: phoneme.trim(), alphabet }),
+        ...(profileId && { profileId }),
+      }),
+    ]);
+    setGrapheme("");
+    setAlias("");
+    setPhoneme("");
+    setError("");
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = importPls(await file.text()).map(entry => (profileId ? { ...entry, profileId } : entry));
+      onChange([...entries, ...imported]);
+      setError("");
+    } catch (importError) {
+      setError(importError instanceof LexiconImportError ? importError.message : "The file could not be read");
+    }
+  };
+
+  const buttonClass = "px-2 py-1 text-xs rounded bg-gray-800 text-gray-300 hover:text-white border border-gray-600 disabled:opacity-50";
+  const inputClass = "px-2 py-1 bg-gray-800 text-white text-sm rounded border border-gray-600";
+
+  return (
+    <details className="w-full text-sm text-gray-300">
+      <summary className="cursor-pointer text-center hover:text-white">
+        Pronunciation lexicon ({entries.length})
+      </summary>
+
+      <div className="flex flex-col gap-2 mt-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={profileId ? "profile" : "global"}
+            onChange={(e) => setScope(e.target.value as "global" | "profile")}
+            aria-label="Lexicon scope"
+            className={inputClass}
+          >
+            <option value="global">All profiles</option>
+            {activeProfile && <option value="profile">Profile: {activeProfile.name}</option>}
+          </select>
+          <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+            Import PLS
+          </button>
+          <button
+            type="button"
+            onClick={() => onExport(scoped, profileId)}
+            disabled={!scoped.some(entry => !entry.regex)}
+            title="Regular expressions are not part of PLS and are left out"
+            className={buttonClass}
+          >
+            Export PLS
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pls,.xml,application/pls+xml"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+
+        {scoped.length > 0 && (
+          <ul className="flex flex-col gap-1">
+            {scoped.map(entry => (
+              <li key={entry.id} className="flex items-center gap-2 text-xs">
+                <code className="text-white">{entry.regex ? `/${entry.grapheme}/` : entry.grapheme}</code>
+                <span className="text-gray-500">&rarr;</span>
+                {entry.alias && <span>&ldquo;{entry.alias}&rdquo;</span>}
+                {entry.phoneme && (
+                  <code className="text-gray-400" title={entry.alphabet ?? DEFAULT_ALPHABET}>/{entry.phoneme}/</code>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onChange(entries.filter(other => other.id !== entry.id))}
+                  aria-label={`Remove ${entry.grapheme}`}
+                  className="ms-auto text-gray-500 hover:text-red-400"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAdd();
+          }}
+          className="flex flex-wrap items-center gap-2"
+        >
+          <input
+            value={grapheme}
+            onChange={(e) => setGrapheme(e.target.value)}
+            placeholder={regex ? "Pattern, e.g. v(\\d+)" : "Word, e.g. Sepia"}
+            aria-label="Word or pattern"
+            className={`${inputClass} w-36`}
+          />
+          <label className="flex items-center gap-1 text-xs text-gray-400">
+            <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} />
+            Regex
+          </label>
+          <input
+            value={alias}
+            onChange={(e) => setAlias(e.target.value)}
+            placeholder="Respelling, e.g. see-pee-uh"
+            aria-label="Respelling"
+            className={`${inputClass} w-44`}
+          />
+          <input
+            value={phoneme}
+            onChange={(e) => setPhoneme(e.target.value)}
+            placeholder="Phoneme (optional)"
+            aria-label="Phoneme"
+            className={`${inputClass} w-36`}
+          />
+          <select
+            value={alphabet}
+            onChange={(e) => setAlphabet(e.target.value)}
+            aria-label="Phonetic alphabet"
+            className={inputClass}
+          >
+            {ALPHABETS.map(name => (
+              <option key={name} value={name}>{name.toUpperCase()}</option>
+            ))}
+          </select>
+          <button type="submit" className={buttonClass}>
+            Add
+          </button>
+        </form>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    </details>
+  );
+};
+
+export default LexiconEditor;
@@ -0,0 +1,209 @@
+import { ChangeEvent, useRef, useState } from "react";
+import { importProfiles, ProfileImportError, SsmlDefaults, SsmlEmphasis, VoiceProfile } from "../services/voice-profiles";
+
+interface ProfileManagerProps {
+  profiles: VoiceProfile[];       // built-in presets first, then user profiles
+  activeId: string;
+  onApply: (profile: VoiceProfile) => void;
+  onCreate: (name: string, ssml?: SsmlDefaults) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (profiles: VoiceProfile[]) => void;
+  onExport: () => void;
+}
+
+type EditMode = "none" | "create" | "rename";
+
+/**
+ * Profile Manager Component
+ *
+ * This component lists voice profiles (the built-in locale presets and the
+ * user's own), applies one when it is picked, and saves the current voice,
+ * speed, pitch, volume and language as a new profile, optionally with SSML
+ * defaults (a pause after each sentence, emphasis). User profiles can be
+ * renamed, deleted, exported to JSON and imported back.
+ *
+ * To remove voice profiles:
+ * 1. Delete this file
+ * 2. Remove the ProfileManager import and usage from Controls.tsx
+ */
+const ProfileManager: React.FC<ProfileManagerProps> = ({
+  profiles,
+  activeId,
+  onApply,
+  onCreate,
+  onRename,
+  onDelete,
+  onImport,
+  onExport,
+}) => {
+  const [editMode, setEditMode] = useState<EditMode>("none");
+  const [name, setName] = useState("");
+  const [sentenceBreak, setSentenceBreak] = useState(0);
+  const [emphasis, setEmphasis] = useState<SsmlEmphasis | "">("");
+  const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const active = profiles.find(profile => profile.id === activeId);
+  const builtIn = profiles.filter(profile => profile.builtIn);
+  const custom = profiles.filter(profile => !profile.builtIn);
+
+  const startEdit = (mode: EditMode) => {
+    setEditMode(mode);
+    setName(mode === "rename" && active ? active.name : "");
+    setSentenceBreak(0);
+    setEmphasis("");
+    setError("");
+  };
+
+  const handleSubmit = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    if (editMode === "create") {
+      const ssml: SsmlDefaults = {};
+      if (sentenceBreak > 0) ssml.sentenceBreak = sentenceBreak;
+      if (emphasis) ssml.emphasis = emphasis;
+      onCreate(trimmed, ssml.sentenceBreak || ssml.emphasis ? ssml : undefined);
+    } else if (editMode === "rename" && active) {
+      onRename(active.id, trimmed);
+    }
+    setEditMode("none");
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = importProfiles(await file.text());
+      onImport(imported);
+      setError("");
+    } catch (importError) {
+      setError(importError instanceof ProfileImportError ? importError.message : "The file could not be read");
+    }
+  };
+
+  const buttonClass = "px-2 py-1 text-xs rounded bg-gray-800 text-gray-300 hover:text-white border border-gray-600 disabled:opacity-50";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={activeId}
+          onChange={(e) => {
+            const profile = profiles.find(p => p.id === e.target.value);
+            if (profile) onApply(profile);
+          }}
+          aria-label="Voice profile"
+          className="px-3 py-2 bg-gray-800 text-white rounded border border-gray-600 min-w-40"
+        >
+          <option value="" disabled>Choose a profile...</option>
+          {custom.length > 0 && (
+            <optgroup label="My profiles">
+              {custom.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </optgroup>
+          )}
+          <optgroup label="Locale presets">
+            {builtIn.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </optgroup>
+        </select>
+
+        <button type="button" onClick={() => startEdit("create")} className={buttonClass}>
+          Save as...
+        </button>
+        <button
+          type="button"
+          onClick={() => startEdit("rename")}
+          disabled={!active || active.builtIn}
+          className={buttonClass}
+        >
+          Rename
+        </button>
+        <button
+          type="button"
+          onClick={() => active && onDelete(active.id)}
+          disabled={!active || active.builtIn}
+          className={buttonClass}
+        >
+          Delete
+        </button>
+        <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          Import
+        </button>
+        <button type="button" onClick={onExport} disabled={custom.length === 0} className={buttonClass}>
+          Export
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {editMode !== "none" && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit();
+          }}
+          className="flex flex-wrap items-center gap-2"
+        >
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setEditMode("none")}
+            placeholder={editMode === "create" ? "Profile name, e.g. Narrator" : "New name"}
+            aria-label="Profile name"
+            className="px-3 py-1 bg-gray-800 text-white text-sm rounded border border-gray-600"
+          />
+          {editMode === "create" && (
+            <>
+              <label className="flex items-center gap-1 text-xs text-gray-400">
+                Pause after sentences (ms)
+                <input
+                  type="number"
+                  min="0"
+                  max="10000"
+                  step="50"
+                  value={sentenceBreak}
+                  onChange={(e) => setSentenceBreak(Math.max(0, Number(e.target.value) || 0))}
+                  className="w-20 px-2 py-1 bg-gray-800 text-white rounded border border-gray-600"
+                />
+              </label>
+              <select
+                value={emphasis}
+                onChange={(e) => setEmphasis(e.target.value as SsmlEmphasis | "")}
+                aria-label="Emphasis"
+                className="px-2 py-1 bg-gray-800 text-white text-xs rounded border border-gray-600"
+              >
+                <option value="">No emphasis</option>
+                <option value="strong">Strong emphasis</option>
+                <option value="moderate">Moderate emphasis</option>
+                <option value="reduced">Reduced emphasis</option>
+              </select>
+            </>
+          )}
+          <button type="submit" disabled={!name.trim()} className={buttonClass}>
+            {editMode === "create" ? "Save" : "Rename"}
+          </button>
+          <button type="button" onClick={() => setEditMode("none")} className={buttonClass}>
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ProfileManager;
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from "react";
+
+interface ReadAlongProps {
+  text: string;
+  charIndex: number;
+  length: number;
+}
+
+/**
+ * Read-Along Component
+ *
+ * This component shows the text being spoken and highlights the current
+ * word (karaoke style), scrolling it into view as playback advances.
+ * Word positions come from TextToSpeech.onWord() for browser voices, and
+ * from the audio player's position (estimated timing) for server voices.
+ *
+ * To remove read-along highlighting:
+ * 1. Delete this file
+ * 2. Remove the ReadAlong import and usage from Controls.tsx
+ */
+const ReadAlong: React.FC<ReadAlongProps> = ({ text, charIndex, length }) => {
+  const currentWordRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    currentWordRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [charIndex]);
+
+  const hasWord = length > 0 && charIndex >= 0 && charIndex < text.length;
+  const before = hasWord ? text.slice(0, charIndex) : text;
+  const word = hasWord ? text.slice(charIndex, charIndex + length) : "";
+  const after = hasWord ? text.slice(charIndex + length) : "";
+
+  return (
+    <div className="max-h-40 overflow-y-auto p-4 bg-gray-900 rounded-lg text-left text-sm sm:text-base whitespace-pre-wrap">
+      <span className="text-gray-400">{before}</span>
+      {hasWord && (
+        <mark
+          ref={currentWordRef}
+          className="bg-gradient-to-r from-[#13EF93] to-[#149AFB] text-black rounded px-0.5"
+        >
+          {word}
+        </mark>
+      )}
+      <span className="text-gray-200">{after}</span>
+    </div>
+  );
+};
+
+export default ReadAlong;
@@ -7,6 +7,8 @@ interface TextInputProps {
   onChange: (value: string) => void;
   onSubmit: () => void;
   placeholder?: string;
+  disabled?: boolean;
+  ssml?: boolean;
 }
 
 /**
@@ -14,6 +16,7 @@ interface TextInputProps {
  *
  * This component provides a text input area for users to enter text.
  * It supports multi-line input with auto-resizing and keyboard shortcuts.
+ * In SSML mode the markup is shown in a monospace font.
  *
  * To remove text input functionality:
  * 1. Delete this file
@@ -25,6 +28,8 @@ const TextInput: React.FC<TextInputProps> = ({
   onChange,
   onSubmit,
   placeholder,
+  disabled,
+  ssml,
 }) => {
   const defaultPlaceholder = `Enter text to turn into speech... ${
     isDesktop &&
@@ -44,10 +49,13 @@ const TextInput: React.FC<TextInputProps> = ({
         }
       }}
       rows={1}
+      disabled={disabled}
       spellCheck={false}
       autoCorrect="off"
-      className="py-2 md:py-4 -mb-[0.4rem] min-h-10 rounded-tl-[2rem] rounded-bl-[2rem] overflow-hidden sm:px-8 w-full resize-none bg-[#101014] text-light-900 border-0 text-sm sm:text-base outline-none focus:ring-0"
-      placeholder={placeholder || defaultPlaceholder}
+      className={`py-2 md:py-4 -mb-[0.4rem] min-h-10 rounded-tl-[2rem] rounded-bl-[2rem] overflow-hidden sm:px-8 w-full resize-none bg-[#101014] text-light-900 border-0 text-sm sm:text-base outline-none focus:ring-0 disabled:opacity-50 ${
+        ssml ? "font-mono" : ""
+      }`}
+      placeholder={placeholder || (ssml ? '<speak>Hello <break time="500ms"/> world.</speak>' : defaultPlaceholder)}
       value={value}
       onChange={(event: ChangeEvent<HTMLTextAreaElement>) => {
         onChange(event.target.value);
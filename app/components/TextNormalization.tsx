@@ -0,0 +1,65 @@
+import { NORMALIZE_RULE_LABELS, NormalizeOptions, NormalizeRule } from "../services/text-normalizer";
+
+interface TextNormalizationProps {
+  options: NormalizeOptions;
+  onChange: (options: NormalizeOptions) => void;
+  preview: string | null;           // spoken text; null while the preview is closed
+  onPreviewToggle: (open: boolean) => void;
+}
+
+/**
+ * Text Normalization Component
+ *
+ * This component toggles the rules that rewrite text into speakable words
+ * for the voice's language before synthesis ("10/12/2026" becomes "October
+ * 12, 2026", "$3.5M" becomes "3.5 million US dollars", "v2.1.0" becomes
+ * "version 2 point 1 point 0"), and previews exactly what will be spoken
+ * after normalization and the pronunciation lexicon.
+ *
+ * To remove text normalization from the UI:
+ * 1. Delete this file
+ * 2. Remove the TextNormalization import and usage from Controls.tsx
+ */
+const TextNormalization: React.FC<TextNormalizationProps> = ({ options, onChange, preview, onPreviewToggle }) => {
+  const enabled = Object.values(options).filter(Boolean).length;
+
+  return (
+    <details className="w-full text-sm text-gray-300">
+      <summary className="cursor-pointer text-center hover:text-white">
+        Text normalization ({enabled} of {Object.keys(options).length} rules)
+      </summary>
+
+      <div className="flex flex-col gap-2 mt-2">
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {(Object.keys(NORMALIZE_RULE_LABELS) as NormalizeRule[]).map(rule => (
+            <label key={rule} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options[rule]}
+                onChange={(e) => onChange({ ...options, [rule]: e.target.checked })}
+              />
+              {NORMALIZE_RULE_LABELS[rule]}
+            </label>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={preview !== null}
+            onChange={(e) => onPreviewToggle(e.target.checked)}
+          />
+          Preview spoken text
+        </label>
+
+        {preview !== null && (
+          <p className="p-2 bg-gray-800 rounded border border-gray-600 text-xs text-gray-200 whitespace-pre-wrap">
+            {preview || <span className="text-gray-500">Nothing to speak</span>}
+          </p>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default TextNormalization;
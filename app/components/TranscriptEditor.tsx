@@ -0,0 +1,124 @@
+import { KeyboardEvent, useEffect, useRef, useState } from "react";
+import TextareaAutosize from "react-textarea-autosize";
+import type { TranscriptSegment } from "../services/transcript";
+
+interface TranscriptEditorProps {
+  segments: TranscriptSegment[];
+  interim?: TranscriptSegment | null;
+  onEdit: (index: number, text: string) => void;
+  placeholder?: string;
+}
+
+// mm:ss.s timestamp for transcript segments
+export const formatTimestamp = (seconds: number): string => {
+  const tenths = Math.round(seconds * 10);
+  const minutes = Math.floor(tenths / 600);
+  const rest = ((tenths % 600) / 10).toFixed(1).padStart(4, "0");
+  return `${String(minutes).padStart(2, "0")}:${rest}`;
+};
+
+/**
+ * Transcript Editor Component
+ *
+ * This component shows the STT transcript as timed segments. Final segments
+ * are kept separate from the interim hypothesis (shown dimmed and italic),
+ * so interim updates never touch final text. Click a final segment to
+ * correct it inline: Enter saves, Escape cancels.
+ *
+ * To remove the transcript editor:
+ * 1. Delete this file
+ * 2. Remove the TranscriptEditor import and usage from Controls.tsx
+ */
+const TranscriptEditor: React.FC<TranscriptEditorProps> = ({
+  segments,
+  interim,
+  onEdit,
+  placeholder,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+
+  // Follow the latest speech unless the user is correcting a segment
+  useEffect(() => {
+    if (editingIndex === null && containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
+  }, [segments.length, interim?.text, editingIndex]);
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setDraft(segments[index].text);
+  };
+
+  const commitEdit = () => {
+    if (editingIndex === null) return;
+
+    // An emptied segment keeps its original text rather than disappearing
+    const text = draft.trim();
+    if (text && text !== segments[editingIndex].text) {
+      onEdit(editingIndex, text);
+    }
+    setEditingIndex(null);
+  };
+
+  const isEmpty = segments.length === 0 && !interim?.text;
+
+  return (
+    <div
+      ref={containerRef}
+      className="py-2 md:py-4 sm:px-8 max-h-60 overflow-y-auto text-left text-sm sm:text-base space-y-1"
+    >
+      {isEmpty && <div className="text-gray-500">{placeholder}</div>}
+
+      {segments.map((segment, index) => (
+        <div key={index} className="flex gap-3 items-start">
+          <span className="text-xs text-gray-500 font-mono shrink-0 pt-1">
+            {formatTimestamp(segment.start)}
+          </span>
+          {editingIndex === index ? (
+            <TextareaAutosize
+              autoFocus
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              onBlur={commitEdit}
+              onKeyDown={(event: KeyboardEvent<HTMLTextAreaElement>) => {
+                if (event.key === "Enter" && !event.shiftKey) {
+                  event.preventDefault();
+                  commitEdit();
+                } else if (event.key === "Escape") {
+                  setEditingIndex(null);
+                }
+              }}
+              className="flex-grow resize-none bg-gray-800 text-light-900 rounded px-1 outline-none focus:ring-0 border-0"
+            />
+          ) : (
+            <span
+              role="button"
+              tabIndex={0}
+              title={`${formatTimestamp(segment.start)} – ${formatTimestamp(segment.end)}${
+                segment.confidence !== undefined ? ` • ${Math.round(segment.confidence * 100)}% confidence` : ""
+              } • click to edit`}
+              onClick={() => startEditing(index)}
+              onKeyDown={(event) => event.key === "Enter" && startEditing(index)}
+              className="flex-grow text-light-900 rounded px-1 cursor-text hover:bg-gray-800"
+            >
+              {segment.text}
+            </span>
+          )}
+        </div>
+      ))}
+
+      {interim?.text && (
+        <div className="flex gap-3 items-start">
+          <span className="text-xs text-gray-600 font-mono shrink-0 pt-1">
+            {formatTimestamp(interim.start)}
+          </span>
+          <span className="flex-grow px-1 italic text-gray-500">{interim.text}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptEditor;
@@ -0,0 +1,49 @@
+import { RESTORE_FEATURE_LABELS, RestoreFeature, RestoreOptions } from "../services/transcript-restore";
+
+interface TranscriptRestoreProps {
+  features: RestoreFeature[];     // available for the recognition language
+  options: RestoreOptions;
+  onChange: (options: RestoreOptions) => void;
+  languageName: string;
+  disabled?: boolean;
+}
+
+/**
+ * Transcript Restore Component
+ *
+ * This component toggles the offline clean-up of dictated text for the
+ * recognition language: punctuation (including question marks), sentence
+ * capitalization, and spelled-out numbers written as digits ("twenty five
+ * dollars" becomes "$25"). Each language keeps its own settings.
+ *
+ * To remove transcript restoration from the UI:
+ * 1. Delete this file
+ * 2. Remove the TranscriptRestore import and usage from Controls.tsx
+ */
+const TranscriptRestore: React.FC<TranscriptRestoreProps> = ({
+  features,
+  options,
+  onChange,
+  languageName,
+  disabled = false,
+}) => {
+  if (features.length === 0) return null;
+
+  return (
+    <fieldset disabled={disabled} className="flex flex-col gap-1 text-sm text-gray-300 disabled:opacity-50">
+      <legend className="text-gray-300 mb-1">Clean up ({languageName})</legend>
+      {features.map(feature => (
+        <label key={feature} className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options[feature]}
+            onChange={(e) => onChange({ ...options, [feature]: e.target.checked })}
+          />
+          {RESTORE_FEATURE_LABELS[feature]}
+        </label>
+      ))}
+    </fieldset>
+  );
+};
+
+export default TranscriptRestore;
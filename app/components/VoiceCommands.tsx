@@ -0,0 +1,65 @@
+import { COMMAND_LABELS, CommandAction, CommandGrammar } from "../services/voice-commands";
+
+interface VoiceCommandsProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  grammar: CommandGrammar | null;   // for the recognition language
+  disabled?: boolean;
+}
+
+// How inserted text is shown in the phrase list
+const showInsert = (insert: string) => insert.replace(/\n/g, "↵");
+
+/**
+ * Voice Commands Component
+ *
+ * This component turns dictation voice commands on or off and lists the
+ * phrases for the recognition language: punctuation and line breaks can be
+ * spoken anywhere, while commands such as "scratch that", "delete last
+ * sentence", "stop listening", "read it back" and "clear" are spoken on
+ * their own.
+ *
+ * To remove voice commands:
+ * 1. Delete this file
+ * 2. Remove the VoiceCommands import and usage from Controls.tsx
+ */
+const VoiceCommands: React.FC<VoiceCommandsProps> = ({ enabled, onToggle, grammar, disabled = false }) => {
+  const commands = Object.entries(grammar?.commands ?? {}).reduce<Partial<Record<CommandAction, string[]>>>(
+    (grouped, [phrase, action]) => ({ ...grouped, [action]: [...(grouped[action] ?? []), phrase] }),
+    {}
+  );
+
+  return (
+    <div className="flex flex-col gap-2 text-sm text-gray-300">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          disabled={disabled || !grammar}
+          onChange={(e) => onToggle(e.target.checked)}
+        />
+        Voice commands
+      </label>
+
+      {enabled && grammar && (
+        <details className="text-xs text-gray-400">
+          <summary className="cursor-pointer hover:text-white">Phrases</summary>
+          <ul className="mt-1 space-y-0.5">
+            {Object.entries(grammar.inserts).map(([phrase, insert]) => (
+              <li key={phrase}>
+                &ldquo;{phrase}&rdquo; &rarr; <code className="text-gray-200">{showInsert(insert)}</code>
+              </li>
+            ))}
+            {(Object.keys(commands) as CommandAction[]).map(action => (
+              <li key={action}>
+                {commands[action]!.map(phrase => `“${phrase}”`).join(", ")} &rarr; {COMMAND_LABELS[action]}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default VoiceCommands;
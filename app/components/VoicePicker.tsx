@@ -0,0 +1,305 @@
+import { KeyboardEvent, useEffect, useId, useMemo, useRef, useState } from "react";
+import {
+  filterVoices,
+  groupVoices,
+  languageLabel,
+  primaryLanguage,
+  searchVoices,
+  Voice,
+  VoiceFilter,
+  voiceKey,
+  VoiceLocality,
+} from "../services/voices";
+
+interface VoicePickerProps {
+  voices: Voice[];
+  value: string;                  // voiceKey() of the selected voice
+  onChange: (key: string) => void;
+  onPreview: (voice: Voice) => void;
+  favorites: string[];            // voiceKey() values
+  onFavoritesChange: (favorites: string[]) => void;
+}
+
+interface VoiceSection {
+  label: string;
+  voices: Voice[];
+}
+
+// e.g. "Samantha (en-US) - Default", "Tone (low) - neutral, 16 kHz"
+const voiceLabel = (voice: Voice): string => {
+  const details = [
+    voice.gender !== "unknown" ? voice.gender : "",
+    voice.sampleRate ? `${voice.sampleRate / 1000} kHz` : "",
+  ].filter(Boolean);
+  const language = voice.language && voice.language !== "und" ? ` (${voice.language})` : "";
+
+  return `${voice.name}${language}${voice.default ? " - Default" : ""}${details.length ? ` - ${details.join(", ")}` : ""}`;
+};
+
+/**
+ * Voice Picker Component
+ *
+ * This component is a combobox over browser and server voices: type to
+ * search by name, language, provider, gender or style, narrow the list by
+ * language, locality (on-device or online) and provider, star favorites
+ * (listed first), and preview a voice with a short sample sentence in its
+ * language. Arrow keys move, Enter selects and Escape closes.
+ *
+ * To remove the voice picker:
+ * 1. Delete this file
+ * 2. Remove the VoicePicker import and usage from Controls.tsx
+ */
+const VoicePicker: React.FC<VoicePickerProps> = ({
+  voices,
+  value,
+  onChange,
+  onPreview,
+  favorites,
+  onFavoritesChange,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [filter, setFilter] = useState<VoiceFilter>({});
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const rootRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+  const listId = useId();
+
+  const selected = voices.find(voice => voiceKey(voice) === value);
+
+  // Close when focus or clicks move outside the picker
+  useEffect(() => {
+    if (!open) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!rootRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handlePointerDown);
+    return () => document.removeEventListener("mousedown", handlePointerDown);
+  }, [open]);
+
+  // Filter options come from the full list, so they never empty themselves
+  const languageOptions = useMemo(() => {
+    const codes = new Set(voices.filter(v => v.language && v.language !== "und").map(v => primaryLanguage(v.language)));
+    return Array.from(codes)
+      .map(code => ({ value: code, label: languageLabel(code) }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [voices]);
+
+  const providerOptions = useMemo(
+    () => Array.from(new Set(voices.map(v => v.provider))).sort(),
+    [voices]
+  );
+
+  // Favorites first, then the remaining voices by source and language
+  const sections = useMemo<VoiceSection[]>(() => {
+    const matches = searchVoices(filterVoices(voices, filter), query);
+    const favoriteVoices = matches.filter(v => favorites.includes(voiceKey(v)));
+    const others = matches.filter(v => !favorites.includes(voiceKey(v)));
+
+    return [
+      ...(favoriteVoices.length > 0 ? [{ label: "★ Favorites", voices: favoriteVoices }] : []),
+      ...groupVoices(others),
+    ];
+  }, [voices, filter, query, favorites]);
+
+  const options = useMemo(() => sections.flatMap(section => section.voices), [sections]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query, filter]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const openList = () => {
+    if (open) return;
+    // Start on the selected voice
+    const index = options.findIndex(v => voiceKey(v) === value);
+    setActiveIndex(Math.max(index, 0));
+    setOpen(true);
+  };
+
+  const select = (voice: Voice) => {
+    onChange(voiceKey(voice));
+    setQuery("");
+    setOpen(false);
+    inputRef.current?.focus();
+  };
+
+  const toggleFavorite = (voice: Voice) => {
+    const key = voiceKey(voice);
+    onFavoritesChange(favorites.includes(key) ? favorites.filter(k => k !== key) : [...favorites, key]);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!open) {
+        openList();
+        return;
+      }
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex(index => Math.min(Math.max(index + step, 0), options.length - 1));
+    } else if (e.key === "Enter" && open && options[activeIndex]) {
+      e.preventDefault();
+      select(options[activeIndex]);
+    } else if (e.key === "Escape" && open) {
+      e.preventDefault();
+      setQuery("");
+      setOpen(false);
+    }
+  };
+
+  const filterSelectClass = "px-2 py-1 bg-gray-800 text-white text-xs rounded border border-gray-600";
+  let optionIndex = -1;
+
+  return (
+    <div ref={rootRef} className="relative">
+      <div className="flex">
+        <input
+          ref={inputRef}
+          role="combobox"
+          aria-expanded={open}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={open && options[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+          value={open ? query : selected ? voiceLabel(selected) : ""}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            openList();
+          }}
+          onFocus={openList}
+          onClick={openList}
+          onKeyDown={handleKeyDown}
+          placeholder={selected ? voiceLabel(selected) : "Search voices..."}
+          className="px-3 py-2 bg-gray-800 text-white rounded-l border border-gray-600 w-64 truncate"
+        />
+        <button
+          type="button"
+          tabIndex={-1}
+          aria-label={open ? "Close voice list" : "Open voice list"}
+          onClick={() => (open ? setOpen(false) : (openList(), inputRef.current?.focus()))}
+          className="px-2 bg-gray-800 text-gray-300 rounded-r border border-l-0 border-gray-600"
+        >
+          ▾
+        </button>
+      </div>
+
+      {open && (
+        <div className="absolute z-20 mt-1 w-96 max-w-[90vw] bg-gray-900 border border-gray-600 rounded-lg shadow-lg">
+          <div className="flex flex-wrap gap-2 p-2 border-b border-gray-700">
+            <select
+              value={filter.language ?? ""}
+              onChange={(e) => setFilter(f => ({ ...f, language: e.target.value || undefined }))}
+              aria-label="Filter by language"
+              className={filterSelectClass}
+            >
+              <option value="">All languages</option>
+              {languageOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <select
+              value={filter.locality ?? ""}
+              onChange={(e) => setFilter(f => ({ ...f, locality: (e.target.value || undefined) as VoiceLocality | undefined }))}
+              aria-label="Filter by locality"
+              className={filterSelectClass}
+            >
+              <option value="">On-device and online</option>
+              <option value="local">On-device</option>
+              <option value="remote">Online</option>
+            </select>
+            <select
+              value={filter.provider ?? ""}
+              onChange={(e) => setFilter(f => ({ ...f, provider: e.target.value || undefined }))}
+              aria-label="Filter by provider"
+              className={filterSelectClass}
+            >
+              <option value="">All providers</option>
+              {providerOptions.map(provider => (
+                <option key={provider} value={provider}>{provider}</option>
+              ))}
+            </select>
+          </div>
+
+          <ul ref={listRef} id={listId} role="listbox" aria-label="Voices" className="max-h-72 overflow-y-auto py-1">
+            {sections.map(section => (
+              <li key={section.label} role="presentation">
+                <div className="px-3 pt-2 pb-1 text-xs font-semibold text-gray-500">{section.label}</div>
+                <ul role="group" aria-label={section.label}>
+                  {section.voices.map(voice => {
+                    optionIndex++;
+                    const index = optionIndex;
+                    const key = voiceKey(voice);
+                    const favorite = favorites.includes(key);
+
+                    return (
+                      <li
+                        key={key}
+                        id={`${listId}-${index}`}
+                        data-index={index}
+                        role="option"
+                        aria-selected={key === value}
+                        onMouseDown={(e) => e.preventDefault()}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        onClick={() => select(voice)}
+                        className={`flex items-center gap-2 px-3 py-1 text-sm cursor-pointer ${
+                          index === activeIndex ? "bg-gray-700" : ""
+                        } ${key === value ? "text-[#13EF93]" : "text-gray-200"}`}
+                      >
+                        <span className="flex-1 truncate" title={languageLabel(voice.language)}>
+                          {voiceLabel(voice)}
+                        </span>
+                        <button
+                          type="button"
+                          tabIndex={-1}
+                          aria-label={`Preview ${voice.name}`}
+                          title="Preview"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onPreview(voice);
+                          }}
+                          className="px-1 text-gray-400 hover:text-white"
+                        >
+                          ▶
+                        </button>
+                        <button
+                          type="button"
+                          tabIndex={-1}
+                          aria-label={favorite ? `Remove ${voice.name} from favorites` : `Add ${voice.name} to favorites`}
+                          aria-pressed={favorite}
+                          title={favorite ? "Remove from favorites" : "Add to favorites"}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggleFavorite(voice);
+                          }}
+                          className={`px-1 ${favorite ? "text-yellow-400" : "text-gray-500 hover:text-yellow-400"}`}
+                        >
+                          {favorite ? "★" : "☆"}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </li>
+            ))}
+          </ul>
+
+          <div className="px-3 py-1 border-t border-gray-700 text-xs text-gray-500">
+            {options.length === 0 ? "No voices match" : `${options.length} of ${voices.length} voices`}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VoicePicker;
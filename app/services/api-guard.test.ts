@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { withApiGuard } from './api-guard';
+
+const handler = withApiGuard('test', async () => new Response('ok'));
+
+function request(headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest('http://localhost/api/test', { method: 'POST', headers });
+}
+
+describe('withApiGuard rate limiting', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('does not put requests without a client address in one shared bucket', async () => {
+    vi.stubEnv('RATE_LIMIT_PER_IP', '1');
+    vi.stubEnv('TRUST_PROXY', '0');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect((await handler(request())).status).toBe(200);
+    expect((await handler(request())).status).toBe(200);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('limits each forwarded address separately behind a trusted proxy', async () => {
+    vi.stubEnv('RATE_LIMIT_PER_IP', '1');
+    vi.stubEnv('TRUST_PROXY', '1');
+
+    expect((await handler(request({ 'x-forwarded-for': '203.0.113.1' }))).status).toBe(200);
+    expect((await handler(request({ 'x-forwarded-for': '203.0.113.1' }))).status).toBe(429);
+    expect((await handler(request({ 'x-forwarded-for': '203.0.113.2' }))).status).toBe(200);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Route middleware for the speech API: optional API-key authentication,
+ * token-bucket rate limiting and usage counters
+ *
+ * Wrap a route handler:  export const POST = withApiGuard("speak", handler);
+ *
+ * - A key is sent as "Authorization: Bearer <key>" or "X-API-Key: <key>".
+ *   Unknown keys get 401; requests without a key are allowed unless
+ *   API_REQUIRE_KEY=true (or the route requires one).
+ * - Requests with a key are limited per key (RATE_LIMIT_PER_KEY, or the
+ *   key's requestsPerMinute), others per client IP (RATE_LIMIT_PER_IP).
+ *   Over the limit: 429 with Retry-After. 0 disables a limit.
+ * - `next start` does not tell route handlers the connection's address, so
+ *   per-IP limiting needs TRUST_PROXY set to the number of reverse proxies in
+ *   front of the app; the IP is then read from X-Forwarded-For (the
+ *   right-most address the proxies did not add themselves). Anonymous
+ *   requests whose address is unknown are not rate limited, with a warning.
+ * Server-only
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKey, findApiKey, getApiKeys } from './api-keys';
+import { TokenBucketLimiter } from './rate-limit';
+
+export type ApiGuardErrorCode = 'UNAUTHORIZED' | 'FORBIDDEN' | 'RATE_LIMITED';
+
+export interface GuardContext {
+  key: ApiKey | null;     // authenticated key, null for anonymous requests
+  client: string;         // 'key:<name>' or 'ip:<address>'
+}
+
+export interface GuardOptions {
+  requireKey?: boolean;
+  adminOnly?: boolean;
+}
+
+export interface UsageCounter {
+  client: string;
+  route: string;
+  requests: number;       // requests passed to the handler
+  rateLimited: number;    // 429 responses
+  unauthorized: number;   // 401/403 responses
+  lastSeen: string;       // ISO timestamp
+}
+
+type GuardedHandler = (request: NextRequest, guard: GuardContext) => Promise<Response>;
+
+const DEFAULT_PER_IP = 60;      // requests per minute
+const DEFAULT_PER_KEY = 300;
+
+const limiter = new TokenBucketLimiter();
+const usage = new Map<string, UsageCounter>();
+const usageSince = new Date().toISOString();
+let warnedUnknownIp = false;
+
+/**
+ * Wrap a route handler with authentication, rate limiting and usage counting
+ */
+export function withApiGuard(route: string, handler: GuardedHandler, options: GuardOptions = {}) {
+  return async (request: NextRequest): Promise<Response> => {
+    const presented = presentedKey(request);
+    const key = presented ? findApiKey(presented) : null;
+    const ip = clientIp(request);
+    const client = key ? `key:${key.name}` : `ip:${ip ?? 'unknown'}`;
+
+    if (presented && !key) {
+      countUsage(client, route, 'unauthorized');
+      return guardError('UNAUTHORIZED', 'Invalid API key', 401);
+    }
+
+    const keyRequired = options.requireKey || options.adminOnly || process.env.API_REQUIRE_KEY === 'true';
+    if (!key && keyRequired) {
+      countUsage(client, route, 'unauthorized');
+      return guardError('UNAUTHORIZED', 'API key required', 401);
+    }
+
+    if (options.adminOnly && !key?.admin) {
+      countUsage(client, route, 'unauthorized');
+      return guardError('FORBIDDEN', 'Admin API key required', 403);
+    }
+
+    const capacity = key
+      ? key.requestsPerMinute ?? limitFromEnv('RATE_LIMIT_PER_KEY', DEFAULT_PER_KEY)
+      : ip ? limitFromEnv('RATE_LIMIT_PER_IP', DEFAULT_PER_IP) : unknownIpCapacity();
+    const limit = limiter.take(client, capacity);
+
+    if (!limit.allowed) {
+      countUsage(client, route, 'rateLimited');
+      const response = guardError('RATE_LIMITED', `Rate limit exceeded; retry in ${limit.retryAfter}s`, 429);
+      response.headers.set('Retry-After', String(limit.retryAfter));
+      response.headers.set('X-RateLimit-Limit', String(limit.limit));
+      response.headers.set('X-RateLimit-Remaining', '0');
+      return response;
+    }
+
+    countUsage(client, route, 'requests');
+    const response = await handler(request, { key, client });
+
+    if (limit.limit > 0) {
+      response.headers.set('X-RateLimit-Limit', String(limit.limit));
+      response.headers.set('X-RateLimit-Remaining', String(limit.remaining));
+    }
+    return response;
+  };
+}
+
+/**
+ * Usage counters since the server started, busiest clients first
+ */
+export function getUsage(): { since: string; authEnabled: boolean; counters: UsageCounter[] } {
+  return {
+    since: usageSince,
+    authEnabled: getApiKeys().length > 0,
+    counters: Array.from(usage.values()).sort((a, b) => b.requests - a.requests),
+  };
+}
+
+function countUsage(client: string, route: string, field: 'requests' | 'rateLimited' | 'unauthorized'): void {
+  const id = `${client} ${route}`;
+  const counter = usage.get(id) ?? { client, route, requests: 0, rateLimited: 0, unauthorized: 0, lastSeen: '' };
+  counter[field]++;
+  counter.lastSeen = new Date().toISOString();
+  usage.set(id, counter);
+}
+
+function presentedKey(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+  return bearer ? bearer[1].trim() : request.headers.get('x-api-key');
+}
+
+// One shared bucket for every unknown address would let one client use up
+// the limit for everyone, so those requests are not limited at all
+function unknownIpCapacity(): number {
+  if (!warnedUnknownIp && limitFromEnv('RATE_LIMIT_PER_IP', DEFAULT_PER_IP) > 0) {
+    warnedUnknownIp = true;
+    console.warn('Client IP address is unknown; per-IP rate limiting is disabled. Set TRUST_PROXY to the number of reverse proxies in front of the app.');
+  }
+  return 0;
+}
+
+// Forwarded headers are set by the client unless a trusted proxy rewrote them
+function clientIp(request: NextRequest): string | null {
+  const trustedProxies = limitFromEnv('TRUST_PROXY', 0);
+  if (trustedProxies < 1) {
+    return request.ip || null;
+  }
+
+  // Each proxy appends the address it received the request from
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  const forwarded = hops[Math.max(0, hops.length - Math.floor(trustedProxies))];
+  return forwarded || request.headers.get('x-real-ip') || request.ip || null;
+}
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  return value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : fallback;
+}
+
+function guardError(code: ApiGuardErrorCode, message: string, status: number): NextResponse {
+  const response = NextResponse.json({ error: message, code }, { status });
+  if (status === 401) {
+    response.headers.set('WWW-Authenticate', 'Bearer');
+  }
+  return response;
+}
@@ -0,0 +1,91 @@
+/**
+ * API keys for the speech routes
+ * Loaded from API_KEYS / API_ADMIN_KEYS ("name:key,name:key") and/or a JSON
+ * file named by API_KEYS_FILE:
+ *   [{ "name": "tool-a", "key": "...", "admin": false, "requestsPerMinute": 120 }]
+ * Server-only
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { readFileSync } from 'fs';
+
+export interface ApiKey {
+  name: string;
+  key: string;
+  admin: boolean;
+  requestsPerMinute?: number;   // overrides RATE_LIMIT_PER_KEY
+}
+
+let cachedKeys: ApiKey[] | null = null;
+
+/**
+ * All configured keys (read once; an empty list means auth is not set up)
+ * A key file that cannot be read is logged and contributes no keys
+ */
+export function getApiKeys(): ApiKey[] {
+  if (!cachedKeys) {
+    cachedKeys = [
+      ...parseKeyList(process.env.API_KEYS, false),
+      ...parseKeyList(process.env.API_ADMIN_KEYS, true),
+      ...readKeyFile(process.env.API_KEYS_FILE),
+    ];
+  }
+  return cachedKeys;
+}
+
+/**
+ * Find the key matching a presented secret (constant-time comparison)
+ */
+export function findApiKey(presented: string): ApiKey | null {
+  const digest = sha256(presented);
+  return getApiKeys().find(entry => timingSafeEqual(sha256(entry.key), digest)) ?? null;
+}
+
+function parseKeyList(value: string | undefined, admin: boolean): ApiKey[] {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const separator = entry.indexOf(':');
+      return separator > 0
+        ? { name: entry.slice(0, separator), key: entry.slice(separator + 1), admin }
+        : { name: `${admin ? 'admin' : 'key'}-${index + 1}`, key: entry, admin };
+    });
+}
+
+function readKeyFile(file: string | undefined): ApiKey[] {
+  if (!file) return [];
+
+  try {
+    return parseKeyFile(file);
+  } catch (error) {
+    console.error(`Ignoring API key file ${file}:`, (error as Error).message);
+    return [];
+  }
+}
+
+function parseKeyFile(file: string): ApiKey[] {
+  const entries = JSON.parse(readFileSync(file, 'utf8'));
+  if (!Array.isArray(entries)) {
+    throw new Error(`API key file ${file} must contain a JSON array`);
+  }
+
+  return entries.map((entry, index) => {
+    if (typeof entry?.key !== 'string' || !entry.key) {
+      throw new Error(`API key file ${file}: entry ${index} has no key`);
+    }
+    return {
+      name: typeof entry.name === 'string' ? entry.name : `file-${index + 1}`,
+      key: entry.key,
+      admin: entry.admin === true,
+      requestsPerMinute: typeof entry.requestsPerMinute === 'number' ? entry.requestsPerMinute : undefined,
+    };
+  });
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
@@ -0,0 +1,50 @@
+/**
+ * Browser-side audio file decoding
+ * Decodes any format the browser supports (WAV, MP3, WebM, OGG...) to mono PCM
+ */
+
+import { floatToPcm16, PcmAudio } from './wav';
+
+export const SUPPORTED_AUDIO_TYPES = ['audio/wav', 'audio/x-wav', 'audio/mpeg', 'audio/mp3', 'audio/webm', 'audio/ogg'];
+export const SUPPORTED_AUDIO_EXTENSIONS = ['.wav', '.mp3', '.webm', '.ogg', '.oga', '.opus'];
+
+/**
+ * Check whether a file looks like a supported audio upload
+ */
+export function isSupportedAudioFile(file: File): boolean {
+  const type = file.type.split(';')[0];
+  const name = file.name.toLowerCase();
+  return SUPPORTED_AUDIO_TYPES.includes(type) || SUPPORTED_AUDIO_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+/**
+ * Decode an audio Blob and resample it to mono 16-bit PCM
+ */
+export async function decodeAudioBlob(blob: Blob, sampleRate = 16000): Promise<PcmAudio> {
+  const data = await blob.arrayBuffer();
+
+  const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+  const context = new AudioContextClass();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(data);
+  } catch {
+    throw new Error('Unable to decode audio file. Supported formats: WAV, MP3, WebM, OGG.');
+  } finally {
+    context.close();
+  }
+
+  // Rendering into a single-channel offline context down-mixes and resamples in one pass
+  const length = Math.max(1, Math.ceil(decoded.duration * sampleRate));
+  const offline = new OfflineAudioContext(1, length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+
+  const rendered = await offline.startRendering();
+  return {
+    samples: floatToPcm16(rendered.getChannelData(0)),
+    sampleRate
+  };
+}
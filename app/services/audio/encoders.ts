@@ -0,0 +1,105 @@
+/**
+ * PCM to WAV / MP3 / Ogg-Opus encoders
+ * Server-only (used by the TTS providers behind /api/speak)
+ */
+
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { AUDIO_FORMATS, AudioFormat } from './formats';
+import { encodeOggOpus, OggOpusStreamEncoder } from './ogg-opus';
+import { createStreamingWavHeader, encodeWav, pcmToBytes, PcmAudio } from './wav';
+
+const MP3_BITRATE = 64;         // kbps
+const MP3_BLOCK_SIZE = 1152;    // samples per MPEG frame
+
+export interface EncodedAudio {
+  data: Uint8Array;
+  contentType: string;
+}
+
+/**
+ * Encode mono 16-bit PCM into the requested container
+ */
+export function encodeAudio(pcm: PcmAudio, format: AudioFormat = 'wav'): EncodedAudio {
+  const { contentType } = AUDIO_FORMATS[format];
+
+  switch (format) {
+    case 'mp3':
+      return { data: encodeMp3(pcm), contentType };
+    case 'ogg':
+      return { data: encodeOggOpus(pcm), contentType };
+    default:
+      return { data: encodeWav(pcm), contentType };
+  }
+}
+
+/**
+ * Incremental encoder for streamed synthesis: write() returns the bytes that
+ * are ready, end() the remainder (the output is one continuous file)
+ */
+export interface StreamEncoder {
+  contentType: string;
+  write(samples: Int16Array): Uint8Array;
+  end(): Uint8Array;
+}
+
+/**
+ * Create a streaming encoder for mono 16-bit PCM
+ * WAV is sent with an open-ended header (see fixWavSizes)
+ */
+export function createStreamEncoder(format: AudioFormat, sampleRate: number): StreamEncoder {
+  const { contentType } = AUDIO_FORMATS[format];
+
+  switch (format) {
+    case 'mp3': {
+      const encoder = new Mp3Encoder(1, sampleRate, MP3_BITRATE);
+      return {
+        contentType,
+        write: samples => {
+          const parts: Uint8Array[] = [];
+          for (let offset = 0; offset < samples.length; offset += MP3_BLOCK_SIZE) {
+            parts.push(encoder.encodeBuffer(samples.subarray(offset, offset + MP3_BLOCK_SIZE)));
+          }
+          return concat(parts);
+        },
+        end: () => encoder.flush(),
+      };
+    }
+    case 'ogg': {
+      const encoder = new OggOpusStreamEncoder(sampleRate);
+      return {
+        contentType,
+        write: samples => encoder.write(samples),
+        end: () => encoder.end(),
+      };
+    }
+    default: {
+      let header: Uint8Array | null = createStreamingWavHeader(sampleRate);
+      return {
+        contentType,
+        write: samples => {
+          const data = pcmToBytes(samples);
+          if (!header) return data;
+          const bytes = concat([header, data]);
+          header = null;
+          return bytes;
+        },
+        end: () => header ?? new Uint8Array(0),
+      };
+    }
+  }
+}
+
+function encodeMp3({ samples, sampleRate }: PcmAudio): Uint8Array {
+  const encoder = createStreamEncoder('mp3', sampleRate);
+  return concat([encoder.write(samples), encoder.end()]);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,25 @@
+/**
+ * Audio export formats
+ * Client-safe metadata; the encoders themselves live server-side in encoders.ts
+ */
+
+import { fileNameFromText } from '../filename';
+
+export type AudioFormat = 'wav' | 'mp3' | 'ogg';
+
+export const AUDIO_FORMATS: Record<AudioFormat, { label: string; contentType: string; extension: string }> = {
+  wav: { label: 'WAV (PCM)', contentType: 'audio/wav', extension: 'wav' },
+  mp3: { label: 'MP3', contentType: 'audio/mpeg', extension: 'mp3' },
+  ogg: { label: 'Ogg (Opus)', contentType: 'audio/ogg', extension: 'ogg' },
+};
+
+export function isAudioFormat(value: string): value is AudioFormat {
+  return Object.prototype.hasOwnProperty.call(AUDIO_FORMATS, value);
+}
+
+/**
+ * Build a download filename from the first words of the text, e.g. "hello-world-this-is.mp3"
+ */
+export function audioFileName(text: string, format: AudioFormat): string {
+  return fileNameFromText(text, AUDIO_FORMATS[format].extension);
+}
@@ -0,0 +1,213 @@
+/**
+ * Ogg/Opus muxer (RFC 7845) on top of the opusscript encoder
+ * Server-only
+ */
+
+import OpusScript from 'opusscript';
+import type { PcmAudio } from './wav';
+
+const OPUS_RATES = [8000, 12000, 16000, 24000, 48000] as const;
+type OpusRate = typeof OPUS_RATES[number];
+
+const GRANULE_RATE = 48000;     // Ogg/Opus granule positions are always 48kHz
+const FRAME_MS = 20;
+const PRE_SKIP = 312;           // encoder lookahead at 48kHz
+const BITRATE = 32000;
+const MAX_PACKETS_PER_PAGE = 50;
+const VENDOR = 'speech-tools';
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let j = 0; j < 8; j++) {
+      r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    }
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Encode mono 16-bit PCM as an Ogg/Opus file
+ */
+export function encodeOggOpus({ samples, sampleRate }: PcmAudio): Uint8Array {
+  const encoder = new OggOpusStreamEncoder(sampleRate);
+  return concat([encoder.write(samples), encoder.end()]);
+}
+
+/**
+ * Incremental Ogg/Opus encoder: write() returns the pages completed so far,
+ * end() pads the last frame and returns the final (end-of-stream) page
+ */
+export class OggOpusStreamEncoder {
+  private encoder: OpusScript;
+  private frameSize: number;
+  private serial = (Math.random() * 0xffffffff) >>> 0;
+  private pending = new Int16Array(0);    // samples short of a full frame
+  private packets: Uint8Array[] = [];     // encoded, not yet paged
+  private pagedPackets = 0;
+  private totalSamples = 0;
+  private sequence = 0;
+
+  constructor(private sampleRate: number) {
+    if (!OPUS_RATES.includes(sampleRate as OpusRate)) {
+      throw new Error(`Opus does not support a ${sampleRate}Hz sample rate`);
+    }
+
+    this.encoder = new OpusScript(sampleRate as OpusRate, 1, OpusScript.Application.VOIP);
+    this.encoder.setBitrate(BITRATE);
+    this.frameSize = (sampleRate * FRAME_MS) / 1000;
+  }
+
+  write(samples: Int16Array): Uint8Array {
+    const buffered = new Int16Array(this.pending.length + samples.length);
+    buffered.set(this.pending);
+    buffered.set(samples, this.pending.length);
+    this.totalSamples += samples.length;
+
+    let offset = 0;
+    for (; offset + this.frameSize <= buffered.length; offset += this.frameSize) {
+      this.encodeFrame(buffered.subarray(offset, offset + this.frameSize));
+    }
+    this.pending = buffered.slice(offset);
+
+    const pages = this.headerPages();
+    while (this.packets.length >= MAX_PACKETS_PER_PAGE) {
+      pages.push(this.page(false));
+    }
+    return concat(pages);
+  }
+
+  end(): Uint8Array {
+    try {
+      if (this.pending.length > 0) {
+        const frame = new Int16Array(this.frameSize);
+        frame.set(this.pending);
+        this.encodeFrame(frame);
+        this.pending = new Int16Array(0);
+      }
+
+      const pages = this.headerPages();
+      do {
+        pages.push(this.page(true));
+      } while (this.packets.length > 0);
+      return concat(pages);
+    } finally {
+      this.encoder.delete();
+    }
+  }
+
+  private encodeFrame(frame: Int16Array): void {
+    const bytes = Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength);
+    this.packets.push(new Uint8Array(this.encoder.encode(bytes, this.frameSize)));
+  }
+
+  private headerPages(): Uint8Array[] {
+    if (this.sequence > 0) return [];
+
+    this.sequence = 2;
+    return [
+      oggPage([opusHead(this.sampleRate)], 0, this.serial, 0, 0x02),
+      oggPage([opusTags()], 0, this.serial, 1, 0),
+    ];
+  }
+
+  private page(final: boolean): Uint8Array {
+    const pagePackets: Uint8Array[] = [];
+    let segments = 0;
+
+    while (this.packets.length > 0 && pagePackets.length < MAX_PACKETS_PER_PAGE) {
+      const needed = Math.floor(this.packets[0].length / 255) + 1;
+      if (segments + needed > 255) break;
+      segments += needed;
+      pagePackets.push(this.packets.shift()!);
+    }
+    this.pagedPackets += pagePackets.length;
+
+    const granulePerFrame = (GRANULE_RATE * FRAME_MS) / 1000;
+    const isLast = final && this.packets.length === 0;
+    const granule = isLast
+      ? PRE_SKIP + Math.round((this.totalSamples * GRANULE_RATE) / this.sampleRate)
+      : PRE_SKIP + this.pagedPackets * granulePerFrame;
+
+    return oggPage(pagePackets, granule, this.serial, this.sequence++, isLast ? 0x04 : 0);
+  }
+}
+
+function opusHead(sampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(ascii('OpusHead'), 0);
+  view.setUint8(8, 1);                   // version
+  view.setUint8(9, 1);                   // channels
+  view.setUint16(10, PRE_SKIP, true);
+  view.setUint32(12, sampleRate, true);  // original input rate
+  view.setInt16(16, 0, true);            // output gain
+  view.setUint8(18, 0);                  // channel mapping family
+  return head;
+}
+
+function opusTags(): Uint8Array {
+  const vendor = ascii(VENDOR);
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(ascii('OpusTags'), 0);
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true);  // no user comments
+  return tags;
+}
+
+function oggPage(packets: Uint8Array[], granule: number, serial: number, sequence: number, headerType: number): Uint8Array {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+  }
+
+  const body = concat(packets);
+  const page = new Uint8Array(27 + lacing.length + body.length);
+  const view = new DataView(page.buffer);
+
+  page.set(ascii('OggS'), 0);
+  view.setUint8(4, 0);                                  // version
+  view.setUint8(5, headerType);
+  view.setUint32(6, granule % 0x100000000, true);       // granule position (64-bit)
+  view.setUint32(10, Math.floor(granule / 0x100000000), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint32(22, 0, true);                          // checksum placeholder
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+  page.set(body, 27 + lacing.length);
+
+  view.setUint32(22, crc32(page), true);
+  return page;
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+}
+
+function ascii(value: string): Uint8Array {
+  return Uint8Array.from(value, char => char.charCodeAt(0));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
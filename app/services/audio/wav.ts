@@ -0,0 +1,192 @@
+/**
+ * WAV (RIFF PCM) encoding helpers
+ * Shared by the server-side TTS providers and the browser
+ */
+
+export interface PcmAudio {
+  samples: Int16Array;
+  sampleRate: number;
+  channels?: number;
+}
+
+const WAV_HEADER_SIZE = 44;
+
+// Data size written in streamed headers, before the real length is known
+const STREAMING_DATA_SIZE = 0xffffffff - 36;
+
+/**
+ * Build a 44-byte canonical WAV header for 16-bit PCM data
+ */
+export function createWavHeader(dataLength: number, sampleRate: number, channels = 1): Uint8Array {
+  const header = new ArrayBuffer(WAV_HEADER_SIZE);
+  const view = new DataView(header);
+  const blockAlign = channels * 2;
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);             // fmt chunk size
+  view.setUint16(20, 1, true);              // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);             // bits per sample
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  return new Uint8Array(header);
+}
+
+/**
+ * Encode 16-bit PCM samples as a complete WAV file
+ */
+export function encodeWav({ samples, sampleRate, channels = 1 }: PcmAudio): Uint8Array {
+  const data = pcmToBytes(samples);
+  const wav = new Uint8Array(WAV_HEADER_SIZE + data.length);
+  wav.set(createWavHeader(data.length, sampleRate, channels), 0);
+  wav.set(data, WAV_HEADER_SIZE);
+  return wav;
+}
+
+/**
+ * WAV header for a stream whose length is not known yet
+ * (players read until the data ends; see fixWavSizes)
+ */
+export function createStreamingWavHeader(sampleRate: number, channels = 1): Uint8Array {
+  return createWavHeader(STREAMING_DATA_SIZE, sampleRate, channels);
+}
+
+/**
+ * Rewrite the size fields of a complete canonical WAV file, e.g. one that
+ * was streamed with createStreamingWavHeader (modified in place)
+ */
+export function fixWavSizes(bytes: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (
+    bytes.length >= WAV_HEADER_SIZE &&
+    readAscii(view, 0, 4) === 'RIFF' &&
+    readAscii(view, 8, 4) === 'WAVE' &&
+    readAscii(view, 36, 4) === 'data'
+  ) {
+    view.setUint32(4, bytes.length - 8, true);
+    view.setUint32(40, bytes.length - WAV_HEADER_SIZE, true);
+  }
+  return bytes;
+}
+
+/**
+ * Little-endian byte view of 16-bit PCM samples
+ */
+export function pcmToBytes(samples: Int16Array): Uint8Array {
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(i * 2, samples[i], true);
+  }
+  return bytes;
+}
+
+/**
+ * Convert float samples in [-1, 1] to 16-bit PCM
+ */
+export function floatToPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+}
+
+/**
+ * Parse a PCM WAV file, down-mixing to mono 16-bit samples
+ */
+export function decodeWav(bytes: Uint8Array): PcmAudio {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (readAscii(view, 0, 4) !== 'RIFF' || readAscii(view, 8, 4) !== 'WAVE') {
+    throw new Error('Invalid WAV file');
+  }
+
+  let offset = 12;
+  let channels = 1;
+  let sampleRate = 0;
+  let bitsPerSample = 16;
+
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = readAscii(view, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      const format = view.getUint16(body, true);
+      if (format !== 1) {
+        throw new Error(`Unsupported WAV encoding: ${format} (only PCM is supported)`);
+      }
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+    } else if (chunkId === 'data') {
+      if (!sampleRate) {
+        throw new Error('Invalid WAV file: data chunk before fmt chunk');
+      }
+      if (bitsPerSample !== 16) {
+        throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+      }
+
+      const size = Math.min(chunkSize, view.byteLength - body);
+      const frames = Math.floor(size / (2 * channels));
+      const samples = new Int16Array(frames);
+      for (let i = 0; i < frames; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels; c++) {
+          sum += view.getInt16(body + (i * channels + c) * 2, true);
+        }
+        samples[i] = Math.round(sum / channels);
+      }
+      return { samples, sampleRate, channels: 1 };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('Invalid WAV file: missing data chunk');
+}
+
+/**
+ * Linear-interpolation resampler for mono 16-bit PCM
+ */
+export function resamplePcm(samples: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate === toRate) {
+    return samples;
+  }
+
+  const ratio = fromRate / toRate;
+  const length = Math.floor(samples.length / ratio);
+  const out = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    out[i] = Math.round(samples[index] * (1 - fraction) + samples[next] * fraction);
+  }
+  return out;
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let value = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    value += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return value;
+}
+
+function writeAscii(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Continuous dictation on top of SpeechToText
+ * Browsers end recognition after silence or a session limit (about 60s in
+ * Chrome); the session restarts it, stitches the results of each run into
+ * one timeline without duplicates, and reports an explicit state
+ */
+
+import type { TranscriptSegment } from './transcript';
+import { RecognitionEndedError, type SpeechToText } from './web-speech-stt';
+
+export type DictationState = 'idle' | 'listening' | 'paused' | 'reconnecting' | 'error';
+
+const RESTART_DELAY = 250;          // ms before restarting after an end
+const MAX_RESTART_DELAY = 4000;
+const MAX_FAILED_RESTARTS = 5;      // restarts in a row that end without hearing anything
+const STABLE_RUN = 5000;            // ms a run must last to reset the failure count
+const REPEAT_WINDOW = 2;            // s after a restart in which a repeated final is dropped
+
+// Errors that restarting cannot fix
+const FATAL_ERRORS: Record<string, string> = {
+  'not-allowed': 'Microphone permission denied. Please allow microphone access in your browser settings.',
+  'service-not-allowed': 'Speech recognition is not allowed in this browser.',
+  'audio-capture': 'No microphone found. Please check your microphone connection.',
+  'language-not-supported': 'This language is not supported for speech recognition.',
+};
+
+export class DictationSession {
+  private state: DictationState = 'idle';
+  private language = 'en-US';
+  private error = '';
+
+  // Session clock: listening time only, so pauses leave no gaps
+  private activeTime = 0;           // ms of finished runs
+  private runStartedAt = 0;         // performance.now() when the current run started
+  private runOffset = 0;            // session time (s) at which the current run started
+
+  private runId = 0;
+  private seenResults = new Set<string>();
+  private lastFinal: TranscriptSegment | null = null;
+  private heardInRun = false;
+  private failedRestarts = 0;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private stateCallback: ((state: DictationState) => void) | null = null;
+  private segmentCallback: ((segment: TranscriptSegment) => void) | null = null;
+  private interimCallback: ((segment: TranscriptSegment | null) => void) | null = null;
+
+  constructor(private stt: SpeechToText) {
+    stt.onResult((transcript, isFinal, segment) => this.handleResult(isFinal, segment));
+    stt.onError(error => this.handleError(error));
+    stt.onEnd(() => this.handleEnd());
+  }
+
+  /**
+   * Start a new session (clears the previous session's clock)
+   */
+  async start(language: string): Promise<void> {
+    this.stop();
+    this.language = language;
+    this.activeTime = 0;
+    this.lastFinal = null;
+    this.failedRestarts = 0;
+    await this.startRun('listening');
+  }
+
+  /**
+   * Stop listening but keep the session, so resume() continues its timeline
+   */
+  pause(): void {
+    if (this.state !== 'listening' && this.state !== 'reconnecting') return;
+
+    this.clearRestart();
+    this.endRun();
+    this.setState('paused');
+    this.stt.stopRecognition();
+  }
+
+  async resume(): Promise<void> {
+    if (this.state !== 'paused') return;
+    this.failedRestarts = 0;
+    await this.startRun('listening');
+  }
+
+  /**
+   * End the session
+   */
+  stop(): void {
+    if (this.state === 'idle') return;
+
+    this.clearRestart();
+    this.endRun();
+    this.setState('idle');
+    this.stt.stopRecognition();
+  }
+
+  getState(): DictationState {
+    return this.state;
+  }
+
+  /**
+   * Message for the 'error' state
+   */
+  getError(): string {
+    return this.error;
+  }
+
+  /**
+   * Listening time in seconds, across restarts and excluding pauses
+   */
+  getDuration(): number {
+    const running = this.state === 'listening' ? performance.now() - this.runStartedAt : 0;
+    return (this.activeTime + running) / 1000;
+  }
+
+  onStateChange(callback: (state: DictationState) => void): void {
+    this.stateCallback = callback;
+  }
+
+  /**
+   * Each final segment, once, with times on the session timeline
+   */
+  onSegment(callback: (segment: TranscriptSegment) => void): void {
+    this.segmentCallback = callback;
+  }
+
+  /**
+   * The latest interim hypothesis; null when it is finalized or dropped
+   */
+  onInterim(callback: (segment: TranscriptSegment | null) => void): void {
+    this.interimCallback = callback;
+  }
+
+  private async startRun(state: 'listening' | 'reconnecting'): Promise<void> {
+    this.setState(state);
+    this.runId++;
+    this.seenResults.clear();
+    this.heardInRun = false;
+
+    try {
+      await this.stt.startRecognition({ language: this.language, interimResults: true, continuous: true });
+    } catch (error) {
+      // A failed start also fires onEnd; the state decides what happens next
+      if (this.state === 'idle' || this.state === 'paused') return;
+      if (error instanceof RecognitionEndedError && this.state === 'reconnecting') {
+        // Ended quietly during a restart: back off and try again
+        this.failedRestarts++;
+        this.scheduleRestart();
+        return;
+      }
+      this.fail((error as Error).message);
+      throw error;
+    }
+
+    if (this.state === 'idle' || this.state === 'paused') {
+      // Stopped while starting
+      this.stt.stopRecognition();
+      return;
+    }
+
+    this.runStartedAt = performance.now();
+    this.runOffset = this.activeTime / 1000;
+    this.setState('listening');
+  }
+
+  private endRun(): void {
+    if (this.state === 'listening') {
+      this.activeTime += performance.now() - this.runStartedAt;
+    }
+    this.interimCallback?.(null);
+  }
+
+  private handleResult(isFinal: boolean, segment: TranscriptSegment): void {
+    if (this.state !== 'listening') return;
+    this.heardInRun = true;
+
+    const stitched = this.rebase(segment);
+    if (!isFinal) {
+      this.interimCallback?.(stitched);
+      return;
+    }
+
+    // A result is identified by when it was first heard within its run;
+    // some browsers deliver the same final result more than once
+    const id = `${this.runId}:${segment.start}`;
+    if (this.seenResults.has(id)) return;
+    this.seenResults.add(id);
+
+    // Some browsers repeat the last final result right after a restart
+    const repeated =
+      this.lastFinal?.text === stitched.text && stitched.start - this.runOffset < REPEAT_WINDOW &&
+      this.lastFinal.end <= this.runOffset;
+    this.interimCallback?.(null);
+    if (repeated) return;
+
+    this.lastFinal = stitched;
+    this.segmentCallback?.(stitched);
+  }
+
+  private handleError(error: string): void {
+    if (FATAL_ERRORS[error]) {
+      this.fail(FATAL_ERRORS[error]);
+      this.stt.stopRecognition();
+    }
+    // Other errors ('no-speech', 'network', 'aborted') end the run; handleEnd restarts it
+  }
+
+  private handleEnd(): void {
+    if (this.state !== 'listening') return;
+
+    this.endRun();
+    const runLength = performance.now() - this.runStartedAt;
+    this.failedRestarts = this.heardInRun || runLength > STABLE_RUN ? 0 : this.failedRestarts + 1;
+    this.setState('reconnecting');
+    this.scheduleRestart();
+  }
+
+  // Restart after a delay that grows with each failed restart in a row
+  private scheduleRestart(): void {
+    if (this.failedRestarts > MAX_FAILED_RESTARTS) {
+      this.fail('Speech recognition keeps stopping. Check your connection and try again.');
+      return;
+    }
+
+    const delay = Math.min(RESTART_DELAY * 2 ** this.failedRestarts, MAX_RESTART_DELAY);
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.startRun('reconnecting').catch(() => {
+        // fail() has already reported the error
+      });
+    }, delay);
+  }
+
+  private rebase(segment: TranscriptSegment): TranscriptSegment {
+    const offset = this.runOffset;
+    return {
+      ...segment,
+      start: segment.start + offset,
+      end: segment.end + offset,
+      words: segment.words?.map(word => ({ ...word, start: word.start + offset, end: word.end + offset })),
+    };
+  }
+
+  private fail(message: string): void {
+    this.clearRestart();
+    if (this.state === 'listening') {
+      this.endRun();
+    }
+    this.error = message;
+    this.setState('error');
+  }
+
+  private clearRestart(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+
+  private setState(state: DictationState): void {
+    if (state === this.state) return;
+    if (state !== 'error') {
+      this.error = '';
+    }
+    this.state = state;
+    this.stateCallback?.(state);
+  }
+}
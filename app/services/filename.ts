@@ -0,0 +1,20 @@
+/**
+ * Download filename helpers
+ */
+
+/**
+ * Build a filename from the first words of the text, e.g. "hello-world-this-is.mp3"
+ */
+export function fileNameFromText(text: string, extension: string, fallback = 'speech', maxWords = 5): string {
+  const slug = text
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(Boolean)
+    .slice(0, maxWords)
+    .join('-')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+
+  return `${slug || fallback}.${extension}`;
+}
@@ -0,0 +1,308 @@
+/**
+ * Offline language identification for TTS input
+ * Text is split into runs by script (Han, kana, Hangul, Latin, ...); Han is
+ * Japanese next to kana and Chinese otherwise, and Latin-script sentences
+ * are told apart by character trigram and stop-word profiles. Client-safe
+ */
+
+import { splitSentences } from './text-chunker';
+
+export interface LanguageRun {
+  text: string;
+  start: number;      // character offset in the source text
+  end: number;        // exclusive
+  language: string;   // primary language subtag, e.g. 'zh'
+}
+
+export interface LanguageShare {
+  language: string;
+  share: number;      // 0 to 1, by letters
+}
+
+export interface DetectOptions {
+  fallback?: string;  // Latin-script language for text too short to identify (default 'en')
+}
+
+type Script =
+  | 'han' | 'kana' | 'hangul' | 'latin' | 'cyrillic' | 'greek'
+  | 'arabic' | 'hebrew' | 'devanagari' | 'thai';
+
+// Default locale per detectable language, used to pick voices
+export const DETECTABLE_LANGUAGES: Record<string, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE',
+  it: 'it-IT',
+  pt: 'pt-BR',
+  nl: 'nl-NL',
+  zh: 'zh-CN',
+  ja: 'ja-JP',
+  ko: 'ko-KR',
+  ru: 'ru-RU',
+  el: 'el-GR',
+  ar: 'ar-SA',
+  he: 'he-IL',
+  hi: 'hi-IN',
+  th: 'th-TH',
+};
+
+const SCRIPT_PATTERNS: [Script, RegExp][] = [
+  ['kana', /[\p{Script=Hiragana}\p{Script=Katakana}ー]/u],
+  ['han', /\p{Script=Han}/u],
+  ['hangul', /\p{Script=Hangul}/u],
+  ['latin', /\p{Script=Latin}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+  ['greek', /\p{Script=Greek}/u],
+  ['arabic', /\p{Script=Arabic}/u],
+  ['hebrew', /\p{Script=Hebrew}/u],
+  ['devanagari', /\p{Script=Devanagari}/u],
+  ['thai', /\p{Script=Thai}/u],
+];
+
+// Scripts used by a single detectable language
+const SCRIPT_LANGUAGES: Partial<Record<Script, string>> = {
+  kana: 'ja',
+  hangul: 'ko',
+  cyrillic: 'ru',
+  greek: 'el',
+  arabic: 'ar',
+  hebrew: 'he',
+  devanagari: 'hi',
+  thai: 'th',
+};
+
+// Most frequent trigrams per Latin-script language ('_' marks a word boundary)
+const TRIGRAMS: Record<string, string[]> = {
+  en: ['_th', 'the', 'he_', '_an', 'nd_', 'and', 'ion', '_of', 'of_', '_to', 'to_', 'ing', 'ng_', '_in', 'in_',
+    'tio', 'ed_', 'is_', '_is', 'er_', 're_', '_co', 'on_', 'at_', '_wh', 'hat', 'tha', 'ent', 'es_', 'for',
+    '_fo', 'or_', '_be', 'ly_', 'you', '_yo', 'ou_', 'ere', 'his', '_it'],
+  es: ['_de', 'de_', 'os_', '_la', 'la_', 'el_', '_el', 'es_', 'as_', '_qu', 'que', 'ue_', '_en', 'en_', 'ión',
+    'ent', '_co', '_lo', 'ado', 'do_', '_se', 'ar_', 'ra_', '_po', 'con', 'er_', 'cio', 'ón_', 'nte', '_pa',
+    'los', '_un', '_es', 'ta_', 'aci', 'por', 'una', 'est', '_ca', 'ien'],
+  fr: ['_de', 'es_', 'de_', 'le_', '_le', 'ent', '_la', 'la_', 'nt_', '_et', 'et_', 'ion', 'les', 're_', '_pa',
+    '_co', 'ne_', 'que', '_qu', 'ue_', '_un', '_en', 'on_', 'tio', '_pr', 'our', 'ur_', 'est', 'ait', '_au',
+    'eme', 'ans', '_da', 'dan', '_po', 'me_', 'des', 'ux_', 'ous', '_vo'],
+  de: ['en_', 'er_', '_de', 'der', 'ie_', '_di', 'die', 'ch_', 'sch', 'ich', 'ein', '_ei', 'und', '_un', 'nd_',
+    'cht', '_da', 'den', '_ge', 'gen', 'te_', 'ung', 'ng_', 'ten', 'che', '_zu', 'in_', '_in', 'ist', '_is',
+    'st_', '_mi', '_be', 'ber', 'eit', 'es_', 'as_', 'auf', '_au', 'ine'],
+  it: ['_di', 'di_', '_la', 'la_', 'to_', '_il', 'il_', '_co', 'one', 'che', '_ch', 'he_', 're_', '_de', 'del',
+    'ell', 'lla', '_in', 'ion', '_pe', 'per', 'are', 'ta_', 'no_', 'zio', '_un', 'con', 'ent', 'nte', '_ne',
+    'ato', 'ere', '_su', 'ia_', '_al', 'ale', '_so', 'ti_', 'ne_', 'gli'],
+  pt: ['_de', 'de_', 'os_', '_qu', 'que', 'ue_', 'do_', '_do', 'da_', '_da', 'ão_', 'ção', '_co', 'ent', 'as_',
+    '_se', '_pa', '_em', 'em_', 'ra_', 'es_', 'nte', 'com', '_na', '_no', '_um', 'um_', 'ida', 'ado', '_pr',
+    'par', 'ara', 'ões', 'nto', 'ssa', 'est', 'men', 'não', '_nã', 'açã'],
+  nl: ['_de', 'de_', 'en_', 'van', '_va', 'an_', 'het', '_he', 'et_', 'een', '_ee', '_in', 'in_', 'er_', 'ijk',
+    'ij_', '_ge', '_da', 'dat', 'at_', '_zi', 'oor', '_vo', 'voo', 'cht', '_is', 'is_', '_op', 'op_', 'ing',
+    '_te', 'aar', 'sch', 'ver', '_ve', 'nde', '_wo', 'eer', 'ten', 'ijn'],
+};
+
+const STOP_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'it', 'that', 'you', 'this', 'with', 'for', 'are', 'was', 'on',
+    'be', 'have', 'not', 'what', 'my'],
+  es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'un', 'una', 'es', 'por', 'con', 'para', 'no', 'se',
+    'del', 'al', 'lo', 'como'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'que', 'qui', 'dans', 'pour', 'pas', 'sur',
+    'au', 'ce', 'il', 'je', 'vous'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'ich', 'zu', 'mit', 'den', 'von', 'auf',
+    'sie', 'es', 'sich', 'dem', 'auch', 'wir'],
+  it: ['il', 'la', 'di', 'che', 'e', 'è', 'un', 'una', 'per', 'non', 'sono', 'con', 'del', 'della', 'le',
+    'gli', 'mi', 'ho', 'ma', 'questo'],
+  pt: ['o', 'a', 'os', 'as', 'de', 'que', 'e', 'é', 'um', 'uma', 'não', 'com', 'para', 'do', 'da', 'em',
+    'no', 'na', 'por', 'você'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'niet', 'ik', 'je', 'op', 'te', 'in', 'met', 'zijn',
+    'voor', 'er', 'die', 'wat', 'ook'],
+};
+
+// Trigram rank weights: the most frequent trigram scores highest
+const TRIGRAM_WEIGHTS: Record<string, Map<string, number>> = Object.fromEntries(
+  Object.entries(TRIGRAMS).map(([language, trigrams]) => [
+    language,
+    new Map(trigrams.map((trigram, rank) => [trigram, 1 - rank / trigrams.length / 2])),
+  ])
+);
+
+const STOP_WORD_WEIGHT = 3;
+const MIN_LATIN_LETTERS = 12;   // shorter sentences take their neighbours' language
+const MIN_MARGIN = 1.1;         // best score must beat the runner-up by this factor
+
+const TERMINATORS = /[.!?…。！？\n]/;
+const TERMINATOR_AT_END = /[.!?…。！？\n]\s*$/;
+
+/**
+ * Split text into runs of one language each
+ * Punctuation and spaces stay with the preceding run; runs cover the whole text
+ */
+export function detectLanguageRuns(text: string, options: DetectOptions = {}): LanguageRun[] {
+  const fallback = options.fallback && TRIGRAMS[options.fallback] ? options.fallback : 'en';
+  const scriptRuns = splitScripts(text);
+  const runs: LanguageRun[] = [];
+
+  scriptRuns.forEach((run, index) => {
+    if (run.script === 'latin') {
+      runs.push(...identifyLatinRun(text, run, fallback));
+      return;
+    }
+
+    let language = run.script ? SCRIPT_LANGUAGES[run.script] : undefined;
+    if (run.script === 'han') {
+      language = isNextToKana(text, scriptRuns, index) ? 'ja' : 'zh';
+    }
+    runs.push({ text: text.slice(run.start, run.end), start: run.start, end: run.end, language: language ?? fallback });
+  });
+
+  return mergeRuns(text, runs);
+}
+
+/**
+ * Share of each detected language, largest first
+ */
+export function summarizeLanguages(runs: LanguageRun[]): LanguageShare[] {
+  const letters = new Map<string, number>();
+  for (const run of runs) {
+    const count = run.text.replace(/[^\p{L}]/gu, '').length;
+    letters.set(run.language, (letters.get(run.language) ?? 0) + count);
+  }
+
+  const total = Array.from(letters.values()).reduce((sum, count) => sum + count, 0);
+  if (total === 0) return [];
+
+  return Array.from(letters.entries())
+    .filter(([, count]) => count > 0)
+    .map(([language, count]) => ({ language, share: count / total }))
+    .sort((a, b) => b.share - a.share);
+}
+
+/**
+ * Most likely Latin-script language of a sentence, or null when it is too
+ * short or too ambiguous to tell
+ */
+export function identifyLatinLanguage(text: string): string | null {
+  const normalized = text.toLowerCase().replace(/[^\p{L}']+/gu, ' ').trim();
+  if (normalized.replace(/[\s']/g, '').length < MIN_LATIN_LETTERS) return null;
+
+  const words = normalized.split(' ');
+  const scores = Object.keys(TRIGRAMS).map(language => {
+    const weights = TRIGRAM_WEIGHTS[language];
+    const stopWords = STOP_WORDS[language];
+    let score = 0;
+
+    for (const word of words) {
+      const padded = `_${word}_`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        score += weights.get(padded.slice(i, i + 3)) ?? 0;
+      }
+      if (stopWords.includes(word)) {
+        score += STOP_WORD_WEIGHT;
+      }
+    }
+    return { language, score };
+  });
+
+  scores.sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  return best.score > 0 && best.score >= runnerUp.score * MIN_MARGIN ? best.language : null;
+}
+
+interface ScriptRun {
+  script: Script | null;    // null: only punctuation, digits and spaces
+  start: number;
+  end: number;
+}
+
+function scriptOf(char: string): Script | null {
+  for (const [script, pattern] of SCRIPT_PATTERNS) {
+    if (pattern.test(char)) return script;
+  }
+  return null;
+}
+
+/**
+ * Runs of one script; script-less characters join the run before them
+ * (or the first run, at the start of the text). Han runs also end at
+ * sentence ends, so a Chinese sentence is not merged into a Japanese one
+ */
+function splitScripts(text: string): ScriptRun[] {
+  const runs: ScriptRun[] = [];
+  let offset = 0;
+  let sentenceEnded = false;
+
+  for (const char of text) {
+    const script = scriptOf(char);
+    const last = runs[runs.length - 1];
+    const newSentence = sentenceEnded && script === 'han';
+
+    if (script !== null) {
+      sentenceEnded = false;
+    } else if (TERMINATORS.test(char)) {
+      sentenceEnded = true;
+    }
+
+    if (last && !newSentence && (script === null || script === last.script)) {
+      last.end = offset + char.length;
+    } else if (last && last.script === null) {
+      last.script = script;
+      last.end = offset + char.length;
+    } else {
+      runs.push({ script, start: offset, end: offset + char.length });
+    }
+    offset += char.length;
+  }
+
+  return runs;
+}
+
+/**
+ * Whether a Han run sits in the same sentence as adjacent kana
+ */
+function isNextToKana(text: string, runs: ScriptRun[], index: number): boolean {
+  const previous = runs[index - 1];
+  const next = runs[index + 1];
+  const run = runs[index];
+
+  return (
+    (previous?.script === 'kana' && !TERMINATOR_AT_END.test(text.slice(previous.start, previous.end))) ||
+    (next?.script === 'kana' && !TERMINATOR_AT_END.test(text.slice(run.start, run.end)))
+  );
+}
+
+/**
+ * Identify each sentence of a Latin run; unidentifiable sentences take the
+ * language of the sentence before them (or the fallback)
+ */
+function identifyLatinRun(text: string, run: ScriptRun, fallback: string): LanguageRun[] {
+  const runText = text.slice(run.start, run.end);
+  const sentences = splitSentences(runText);
+  const identified = sentences.map(sentence => identifyLatinLanguage(sentence.text));
+
+  // Fill gaps forward, then let leading gaps take the first identified language
+  const first = identified.find(language => language !== null) ?? fallback;
+  let previous = first;
+  const runs: LanguageRun[] = [];
+
+  sentences.forEach((sentence, index) => {
+    const language = identified[index] ?? previous;
+    previous = language;
+    // Sentences cover the run; the gaps between them belong to the earlier one
+    const start = index === 0 ? run.start : run.start + sentence.start;
+    const end = index === sentences.length - 1 ? run.end : run.start + sentences[index + 1].start;
+    runs.push({ text: text.slice(start, end), start, end, language });
+  });
+
+  return runs.length > 0 ? runs : [{ text: runText, start: run.start, end: run.end, language: fallback }];
+}
+
+function mergeRuns(text: string, runs: LanguageRun[]): LanguageRun[] {
+  const merged: LanguageRun[] = [];
+
+  for (const run of runs) {
+    const last = merged[merged.length - 1];
+    if (last && last.language === run.language) {
+      last.end = run.end;
+      last.text = text.slice(last.start, last.end);
+    } else {
+      merged.push({ ...run });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,250 @@
+/**
+ * Pronunciation lexicon
+ * User entries map a word (or a regular expression) to a respelling spoken
+ * in its place and/or an SSML <phoneme> pronunciation. Entries are global or
+ * belong to one voice profile. Voices speak the respelling when there is
+ * one: browser voices cannot read phonemes and the server providers do not
+ * support <phoneme> yet, so only entries without a respelling are sent as
+ * phonemes (server voices, SSML). Lexicons are imported
+ * from and exported to PLS (W3C Pronunciation Lexicon Specification) XML.
+ * Client-safe
+ */
+
+import { parseTree, SsmlElement, SsmlError, textContent } from './ssml';
+import { rewriteText, RewrittenText } from './text-rewrite';
+
+export interface LexiconEntry {
+  id: string;
+  grapheme: string;       // word or phrase; a pattern when regex is set
+  regex?: boolean;        // grapheme is a case-sensitive regular expression
+  alias?: string;         // respelling spoken instead, e.g. "sep-ee-uh"
+  phoneme?: string;       // pronunciation written in `alphabet`
+  alphabet?: string;      // 'ipa' (default), 'x-sampa', ...
+  profileId?: string;     // voice profile; global when unset
+}
+
+export const PLS_NAMESPACE = 'http://www.w3.org/2005/01/pronunciation-lexicon';
+export const DEFAULT_ALPHABET = 'ipa';
+
+interface LexiconMatch {
+  start: number;
+  end: number;
+  entry: LexiconEntry;
+}
+
+export class LexiconImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LexiconImportError';
+  }
+}
+
+export function createLexiconEntry(values: Omit<LexiconEntry, 'id'>): LexiconEntry {
+  return { id: newEntryId(), ...values };
+}
+
+/**
+ * Check a stored entry; null if it cannot be used (no pronunciation, or an
+ * invalid pattern)
+ */
+export function validateLexiconEntry(raw: unknown): LexiconEntry | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const entry = raw as Record<string, unknown>;
+
+  const grapheme = typeof entry.grapheme === 'string' ? entry.grapheme.trim() : '';
+  const alias = typeof entry.alias === 'string' && entry.alias.trim() ? entry.alias.trim() : undefined;
+  const phoneme = typeof entry.phoneme === 'string' && entry.phoneme.trim() ? entry.phoneme.trim() : undefined;
+  const regex = entry.regex === true;
+  if (!grapheme || (!alias && !phoneme) || (regex && !isValidPattern(grapheme))) return null;
+
+  return {
+    id: typeof entry.id === 'string' && entry.id ? entry.id : newEntryId(),
+    grapheme,
+    ...(regex && { regex }),
+    ...(alias && { alias }),
+    ...(phoneme && { phoneme }),
+    ...(phoneme && typeof entry.alphabet === 'string' && entry.alphabet && { alphabet: entry.alphabet }),
+    ...(typeof entry.profileId === 'string' && entry.profileId && { profileId: entry.profileId }),
+  };
+}
+
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'u');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The entries in effect for a voice profile: its own first, so they win
+ * over global entries for the same word
+ */
+export function entriesForProfile(entries: LexiconEntry[], profileId?: string): LexiconEntry[] {
+  const own = profileId ? entries.filter(entry => entry.profileId === profileId) : [];
+  return [...own, ...entries.filter(entry => !entry.profileId)];
+}
+
+/**
+ * Replace matched words with their respellings (for browser voices)
+ */
+export function applyLexicon(text: string, entries: LexiconEntry[]): RewrittenText {
+  const matches = findMatches(text, entries.filter(entry => entry.alias));
+  return rewriteText(text, matches.map(({ start, end, entry }) => ({ start, end, text: entry.alias ?? '' })));
+}
+
+/**
+ * An SSML document speaking the text with <sub> around matched words that
+ * have a respelling and <phoneme> around the others; null when nothing matches
+ */
+export function lexiconToSsml(text: string, entries: LexiconEntry[]): string | null {
+  const matches = findMatches(text, entries);
+  if (matches.length === 0) return null;
+
+  let markup = '';
+  let cursor = 0;
+
+  for (const { start, end, entry } of matches) {
+    markup += escapeXml(text.slice(cursor, start));
+    const word = escapeXml(text.slice(start, end));
+    markup += entry.alias
+      ? `<sub alias="${escapeXml(entry.alias)}">${word}</sub>`
+      : `<phoneme alphabet="${escapeXml(entry.alphabet ?? DEFAULT_ALPHABET)}" ph="${escapeXml(entry.phoneme ?? '')}">${word}</phoneme>`;
+    cursor = end;
+  }
+  markup += escapeXml(text.slice(cursor));
+
+  return `<speak>${markup}</speak>`;
+}
+
+/**
+ * Serialize entries as a PLS document; patterns are left out, since PLS
+ * only has literal graphemes
+ */
+export function exportPls(entries: LexiconEntry[], language: string): string {
+  const lexemes = entries
+    .filter(entry => !entry.regex)
+    .map(entry => {
+      const lines = [`    <grapheme>${escapeXml(entry.grapheme)}</grapheme>`];
+      if (entry.phoneme) {
+        const alphabet = entry.alphabet && entry.alphabet !== DEFAULT_ALPHABET ? ` alphabet="${escapeXml(entry.alphabet)}"` : '';
+        lines.push(`    <phoneme${alphabet}>${escapeXml(entry.phoneme)}</phoneme>`);
+      }
+      if (entry.alias) {
+        lines.push(`    <alias>${escapeXml(entry.alias)}</alias>`);
+      }
+      return `  <lexeme>\n${lines.join('\n')}\n  </lexeme>`;
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<lexicon version="1.0" xmlns="${PLS_NAMESPACE}" alphabet="${DEFAULT_ALPHABET}" xml:lang="${escapeXml(language)}">`,
+    ...lexemes,
+    '</lexicon>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Read a PLS document; each grapheme of a lexeme becomes an entry with the
+ * lexeme's first phoneme and alias. Entries get new IDs and no profile.
+ * Throws LexiconImportError for files that are not valid PLS
+ */
+export function importPls(xml: string): LexiconEntry[] {
+  let root: SsmlElement;
+  try {
+    root = parseTree(xml);
+  } catch (error) {
+    if (error instanceof SsmlError) {
+      throw new LexiconImportError(`The file is not valid XML: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const lexicon = childElements(root).find(element => localName(element) === 'lexicon');
+  if (!lexicon) {
+    throw new LexiconImportError('The file is not a PLS lexicon (no <lexicon> element)');
+  }
+
+  const alphabet = lexicon.attributes.alphabet || DEFAULT_ALPHABET;
+  const entries: LexiconEntry[] = [];
+
+  for (const lexeme of childElements(lexicon).filter(element => localName(element) === 'lexeme')) {
+    const parts = childElements(lexeme);
+    const phoneme = parts.find(part => localName(part) === 'phoneme');
+    const alias = parts.find(part => localName(part) === 'alias');
+
+    for (const grapheme of parts.filter(part => localName(part) === 'grapheme')) {
+      const entry = validateLexiconEntry({
+        grapheme: textContent(grapheme),
+        alias: alias && textContent(alias),
+        phoneme: phoneme && textContent(phoneme),
+        alphabet: phoneme?.attributes.alphabet || alphabet,
+      });
+      if (entry) entries.push({ ...entry, id: newEntryId() });
+    }
+  }
+
+  if (entries.length === 0) {
+    throw new LexiconImportError('The lexicon has no entries with a grapheme and a pronunciation');
+  }
+  return entries;
+}
+
+/**
+ * Non-overlapping matches in text order; when matches overlap, the earlier
+ * one wins, then the entry listed first
+ */
+function findMatches(text: string, entries: LexiconEntry[]): LexiconMatch[] {
+  const candidates: (LexiconMatch & { rank: number })[] = [];
+
+  entries.forEach((entry, rank) => {
+    const pattern = compile(entry);
+    if (!pattern) return;
+
+    for (const match of Array.from(text.matchAll(pattern))) {
+      if (match[0]) {
+        candidates.push({ start: match.index!, end: match.index! + match[0].length, entry, rank });
+      }
+    }
+  });
+
+  candidates.sort((a, b) => a.start - b.start || a.rank - b.rank);
+
+  const matches: LexiconMatch[] = [];
+  let end = 0;
+  for (const { rank, ...match } of candidates) {
+    if (match.start < end) continue;
+    matches.push(match);
+    end = match.end;
+  }
+  return matches;
+}
+
+// Words match whole words, ignoring case; patterns are used as written
+function compile(entry: LexiconEntry): RegExp | null {
+  if (entry.regex) {
+    return isValidPattern(entry.grapheme) ? new RegExp(entry.grapheme, 'gu') : null;
+  }
+
+  const escaped = entry.grapheme.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+function childElements(element: SsmlElement): SsmlElement[] {
+  return element.children.filter((child): child is SsmlElement => typeof child !== 'string');
+}
+
+// Element name without a namespace prefix ("pls:lexeme" -> "lexeme")
+function localName(element: SsmlElement): string {
+  return element.name.split(':').pop() ?? element.name;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function newEntryId(): string {
+  return `lexeme-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
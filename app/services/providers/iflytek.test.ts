@@ -0,0 +1,151 @@
+import { EventEmitter } from 'events';
+import { createHmac } from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type WebSocket from 'ws';
+import { createSignedUrl, IflytekClient, IflytekConfig } from './iflytek';
+
+const config: IflytekConfig = { appId: 'app', apiKey: 'key', apiSecret: 'secret', frameInterval: 0 };
+
+/**
+ * Stands in for the iFlyTek server: records sent frames and answers through `reply`
+ */
+class MockSocket extends EventEmitter {
+  readyState = 0;
+  sent: any[] = [];
+
+  constructor(readonly url: string, private reply: (frame: any, socket: MockSocket) => void) {
+    super();
+    queueMicrotask(() => {
+      this.readyState = 1;
+      this.emit('open');
+    });
+  }
+
+  send(data: string): void {
+    const frame = JSON.parse(data);
+    this.sent.push(frame);
+    this.reply(frame, this);
+  }
+
+  respond(response: object): void {
+    queueMicrotask(() => this.emit('message', Buffer.from(JSON.stringify(response))));
+  }
+
+  close(): void {
+    this.readyState = 3;
+  }
+}
+
+function mockClient(reply: (frame: any, socket: MockSocket) => void) {
+  const sockets: MockSocket[] = [];
+  const client = new IflytekClient(config, url => {
+    const socket = new MockSocket(url, reply);
+    sockets.push(socket);
+    return socket as unknown as WebSocket;
+  });
+  return { client, sockets };
+}
+
+function result(status: number, bg: number, word: string) {
+  return { code: 0, message: 'success', data: { status, result: { ws: [{ bg, cw: [{ w: word }] }] } } };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createSignedUrl', () => {
+  it('signs the host, date and request line with HMAC-SHA256', () => {
+    const date = new Date('2026-01-02T03:04:05Z');
+    const url = new URL(createSignedUrl('wss://iat-api.xfyun.cn/v2/iat', 'key', 'secret', date));
+
+    const rfc1123 = 'Fri, 02 Jan 2026 03:04:05 GMT';
+    const signature = createHmac('sha256', 'secret')
+      .update(`host: iat-api.xfyun.cn\ndate: ${rfc1123}\nGET /v2/iat HTTP/1.1`)
+      .digest('base64');
+
+    expect(url.searchParams.get('date')).toBe(rfc1123);
+    expect(url.searchParams.get('host')).toBe('iat-api.xfyun.cn');
+    expect(Buffer.from(url.searchParams.get('authorization')!, 'base64').toString()).toBe(
+      `api_key="key", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`
+    );
+  });
+});
+
+describe('IflytekClient.recognizePcm', () => {
+  it('sends a first, continue and last frame and collects timed segments', async () => {
+    const { client, sockets } = mockClient((frame, socket) => {
+      if (frame.data.status === 0) socket.respond(result(1, 0, 'hello'));
+      if (frame.data.status === 2) socket.respond(result(2, 50, ' world'));
+    });
+
+    // 1600 samples = 3200 bytes: frames of 1280, 1280 and 640 bytes
+    const segments = await client.recognizePcm(new Int16Array(1600), 'en-US');
+
+    const sent = sockets[0].sent;
+    expect(sent.map(frame => frame.data.status)).toEqual([0, 1, 1, 2]);
+    expect(sent.map(frame => Buffer.from(frame.data.audio, 'base64').length)).toEqual([1280, 1280, 640, 0]);
+    expect(sent[0].common).toEqual({ app_id: 'app' });
+    expect(sent[0].business.language).toBe('en_us');
+    expect(sent[1].business).toBeUndefined();
+    expect(sockets[0].url).toMatch(/^wss:\/\/iat-api\.xfyun\.cn\/v2\/iat\?authorization=/);
+
+    expect(segments.map(segment => [segment.text, segment.start, segment.end])).toEqual([
+      ['hello', 0, 0.5],
+      [' world', 0.5, 0.5],
+    ]);
+  });
+
+  it('rejects with the server error code', async () => {
+    const { client } = mockClient((frame, socket) => {
+      socket.respond({ code: 10105, message: 'illegal access' });
+    });
+
+    await expect(client.recognizePcm(new Int16Array(160))).rejects.toThrow('iFlyTek error 10105: illegal access');
+  });
+
+  it('does not time out while audio longer than the idle timeout is still streaming', async () => {
+    vi.useFakeTimers();
+    const streaming = new IflytekClient({ ...config, frameInterval: 40 }, url =>
+      new MockSocket(url, (frame, socket) => {
+        if (frame.data.status === 2) socket.respond(result(2, 0, 'done'));
+      }) as unknown as WebSocket
+    );
+
+    // 60 seconds of audio, sent in real time
+    const recognized = streaming.recognizePcm(new Int16Array(16000 * 60));
+    await vi.advanceTimersByTimeAsync(61000);
+
+    await expect(recognized).resolves.toHaveLength(1);
+  });
+
+  it('times out when the server goes quiet after the last frame', async () => {
+    vi.useFakeTimers();
+    const { client } = mockClient(() => {});
+
+    const recognized = client.recognizePcm(new Int16Array(160));
+    const assertion = expect(recognized).rejects.toThrow('iFlyTek request timeout');
+    await vi.advanceTimersByTimeAsync(30001);
+    await assertion;
+  });
+});
+
+describe('IflytekClient.synthesizePcm', () => {
+  it('sends one final text frame and decodes the base64 PCM response', async () => {
+    const pcm = Buffer.alloc(4);
+    pcm.writeInt16LE(1000, 0);
+    pcm.writeInt16LE(-1000, 2);
+
+    const { client, sockets } = mockClient((frame, socket) => {
+      socket.respond({ code: 0, message: 'success', data: { status: 2, audio: pcm.toString('base64') } });
+    });
+
+    const samples = await client.synthesizePcm('你好', 'xiaoyan', { rate: 1.5 });
+
+    const frame = sockets[0].sent[0];
+    expect(frame.data.status).toBe(2);
+    expect(Buffer.from(frame.data.text, 'base64').toString('utf8')).toBe('你好');
+    expect(frame.business).toMatchObject({ vcn: 'xiaoyan', speed: 75, aue: 'raw' });
+    expect(Array.from(samples)).toEqual([1000, -1000]);
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * iFlyTek (xfyun) WebSocket TTS/STT providers
+ * Server-only: credentials come from IFLYTECH_APP_ID / IFLYTECH_API_KEY / IFLYTECH_API_SECRET
+ */
+
+import { createHmac } from 'crypto';
+import WebSocket from 'ws';
+import { encodeAudio } from '../audio/encoders';
+import { pcmToBytes, PcmAudio, resamplePcm } from '../audio/wav';
+import { bufferToStream, SynthesisOptions, SynthesizedAudio, TtsProvider } from './tts-provider';
+import { SttProvider, TranscriptionOptions, TranscriptionResult } from './stt-provider';
+import type { TranscriptSegment, TranscriptWord } from '../transcript';
+import type { Voice, VoiceGender } from '../voices';
+
+const DEFAULT_TTS_URL = 'wss://tts-api.xfyun.cn/v2/tts';
+const DEFAULT_ASR_URL = 'wss://iat-api.xfyun.cn/v2/iat';
+
+// Standard online TTS speakers (vcn); 'default' maps to the first
+const IFLYTEK_VOICES: { id: string; name: string; gender: VoiceGender }[] = [
+  { id: 'xiaoyan', name: 'Xiaoyan', gender: 'female' },
+  { id: 'aisjiuxu', name: 'Xu Jiu', gender: 'male' },
+  { id: 'aisxping', name: 'Xiaoping', gender: 'female' },
+  { id: 'aisjinger', name: 'Jing\'er', gender: 'female' },
+  { id: 'aisbabyxu', name: 'Xu Xiaobao (child)', gender: 'male' },
+];
+
+const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 1280;        // bytes of PCM per ASR frame (40ms at 16kHz)
+const FRAME_INTERVAL = 40;      // ms between ASR frames, as required by the API
+const IDLE_TIMEOUT = 30000;     // ms without a frame sent or received
+
+// Frame status values shared by both APIs
+const STATUS_FIRST = 0;
+const STATUS_CONTINUE = 1;
+const STATUS_LAST = 2;
+
+export interface IflytekConfig {
+  appId: string;
+  apiKey: string;
+  apiSecret: string;
+  ttsUrl?: string;
+  asrUrl?: string;
+  frameInterval?: number;
+}
+
+// Opens the WebSocket for a signed URL; tests pass a mock
+export type IflytekSocketFactory = (url: string) => WebSocket;
+
+// Sends a JSON frame; false once the socket is no longer open
+type FrameSender = (frame: object) => boolean;
+
+interface IflytekResponse {
+  code: number;
+  message: string;
+  sid?: string;
+  data?: {
+    status: number;
+    audio?: string;
+    result?: {
+      ws: { bg: number; cw: { w: string; sc?: number }[] }[];
+    };
+  };
+}
+
+/**
+ * Read the iFlyTek configuration from server-only environment variables
+ */
+export function getIflytekConfig(): IflytekConfig {
+  const appId = process.env.IFLYTECH_APP_ID;
+  const apiKey = process.env.IFLYTECH_API_KEY;
+  const apiSecret = process.env.IFLYTECH_API_SECRET;
+
+  if (!appId || !apiKey || !apiSecret) {
+    throw new Error('iFlyTek credentials are not configured (IFLYTECH_APP_ID, IFLYTECH_API_KEY, IFLYTECH_API_SECRET)');
+  }
+
+  return {
+    appId,
+    apiKey,
+    apiSecret,
+    ttsUrl: process.env.IFLYTECH_TTS_URL,
+    asrUrl: process.env.IFLYTECH_ASR_URL,
+  };
+}
+
+/**
+ * Build the HMAC-SHA256 signed handshake URL for an iFlyTek WebSocket endpoint
+ */
+export function createSignedUrl(endpoint: string, apiKey: string, apiSecret: string, date = new Date()): string {
+  const url = new URL(endpoint);
+  const rfc1123 = date.toUTCString();
+
+  const signatureOrigin = `host: ${url.host}\ndate: ${rfc1123}\nGET ${url.pathname} HTTP/1.1`;
+  const signature = createHmac('sha256', apiSecret).update(signatureOrigin).digest('base64');
+
+  const authorizationOrigin =
+    `api_key="${apiKey}", algorithm="hmac-sha256", headers="host date request-line", signature="${signature}"`;
+  const authorization = Buffer.from(authorizationOrigin).toString('base64');
+
+  url.searchParams.set('authorization', authorization);
+  url.searchParams.set('date', rfc1123);
+  url.searchParams.set('host', url.host);
+  return url.toString();
+}
+
+/**
+ * Low-level client handling the signed handshake, frame encoding and base64 PCM decoding
+ */
+export class IflytekClient {
+  private config: IflytekConfig;
+  private createSocket: IflytekSocketFactory;
+
+  constructor(config: IflytekConfig, createSocket: IflytekSocketFactory = url => new WebSocket(url)) {
+    this.config = config;
+    this.createSocket = createSocket;
+  }
+
+  /**
+   * Synthesize text to 16kHz 16-bit mono PCM
+   */
+  async synthesizePcm(text: string, voice: string, options: SynthesisOptions = {}): Promise<Int16Array> {
+    const { rate = 1, pitch = 1, volume = 1 } = options;
+
+    const frame = {
+      common: { app_id: this.config.appId },
+      business: {
+        aue: 'raw',
+        auf: `audio/L16;rate=${SAMPLE_RATE}`,
+        vcn: voice,
+        speed: this.scale(rate * 50),
+        pitch: this.scale(pitch * 50),
+        volume: this.scale(volume * 100),
+        tte: 'UTF8',
+      },
+      data: {
+        status: STATUS_LAST,
+        text: Buffer.from(text, 'utf8').toString('base64'),
+      },
+    };
+
+    const chunks: Buffer[] = [];
+
+    await this.session(this.config.ttsUrl || DEFAULT_TTS_URL, (sendFrame) => {
+      sendFrame(frame);
+    }, (response) => {
+      if (response.data?.audio) {
+        chunks.push(Buffer.from(response.data.audio, 'base64'));
+      }
+    });
+
+    const bytes = Buffer.concat(chunks);
+    const samples = new Int16Array(Math.floor(bytes.length / 2));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = bytes.readInt16LE(i * 2);
+    }
+    return samples;
+  }
+
+  /**
+   * Stream 16kHz 16-bit mono PCM to the dictation (iat) API and collect
+   * one timed segment per result frame
+   */
+  async recognizePcm(samples: Int16Array, language = 'en-US'): Promise<TranscriptSegment[]> {
+    const bytes = pcmToBytes(samples);
+    const interval = this.config.frameInterval ?? FRAME_INTERVAL;
+    const segments: TranscriptSegment[] = [];
+
+    await this.session(this.config.asrUrl || DEFAULT_ASR_URL, async (sendFrame) => {
+      for (let offset = 0; offset < bytes.length || offset === 0; offset += FRAME_SIZE) {
+        const status = offset === 0 ? STATUS_FIRST : STATUS_CONTINUE;
+        if (!sendFrame(this.asrFrame(status, bytes.subarray(offset, offset + FRAME_SIZE), language))) {
+          return;
+        }
+        if (interval > 0) {
+          await new Promise(resolve => setTimeout(resolve, interval));
+        }
+      }
+      sendFrame(this.asrFrame(STATUS_LAST, new Uint8Array(0), language));
+    }, (response) => {
+      // ws[] holds one entry per word, cw[] its candidates (best first); bg is in 10ms frames
+      const ws = (response.data?.result?.ws ?? []).filter(word => word.cw.length > 0);
+      const words: TranscriptWord[] = ws.map(word => ({
+        text: word.cw[0].w,
+        start: word.bg / 100,
+        end: word.bg / 100,
+        confidence: word.cw[0].sc || undefined,
+      }));
+      const text = words.map(word => word.text).join('');
+
+      if (text.trim()) {
+        segments.push({
+          text,
+          start: words[0].start,
+          end: words[0].start,
+          alternatives: [{ text }],
+          isFinal: true,
+          words,
+        });
+      }
+    });
+
+    // Words and segments end where the next one starts; the last ones at the end of the audio
+    const duration = samples.length / SAMPLE_RATE;
+    segments.forEach((segment, index) => {
+      segment.end = Math.max(segment.start, index + 1 < segments.length ? segments[index + 1].start : duration);
+      const words = segment.words ?? [];
+      words.forEach((word, wordIndex) => {
+        word.end = Math.max(word.start, wordIndex + 1 < words.length ? words[wordIndex + 1].start : segment.end);
+      });
+    });
+
+    return segments;
+  }
+
+  private asrFrame(status: number, audio: Uint8Array, language: string) {
+    const data = {
+      status,
+      format: `audio/L16;rate=${SAMPLE_RATE}`,
+      encoding: 'raw',
+      audio: Buffer.from(audio).toString('base64'),
+    };
+
+    if (status !== STATUS_FIRST) {
+      return { data };
+    }
+
+    const isChinese = language.toLowerCase().startsWith('zh');
+    return {
+      common: { app_id: this.config.appId },
+      business: {
+        language: isChinese ? 'zh_cn' : 'en_us',
+        domain: 'iat',
+        accent: 'mandarin',
+      },
+      data,
+    };
+  }
+
+  /**
+   * Open a signed socket, run the sender and feed responses to the handler
+   * until the server reports the final frame
+   * Times out after IDLE_TIMEOUT without traffic, so long real-time audio
+   * streams are not cut off
+   */
+  private session(
+    endpoint: string,
+    send: (sendFrame: FrameSender) => void | Promise<void>,
+    onResponse: (response: IflytekResponse) => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const url = createSignedUrl(endpoint, this.config.apiKey, this.config.apiSecret);
+      const socket = this.createSocket(url);
+      let settled = false;
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        socket.close();
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+
+      const restartTimeout = () => {
+        if (settled) return;
+        clearTimeout(timeout);
+        timeout = setTimeout(() => finish(new Error('iFlyTek request timeout')), IDLE_TIMEOUT);
+      };
+
+      const sendFrame: FrameSender = (frame) => {
+        if (settled || socket.readyState !== WebSocket.OPEN) return false;
+        socket.send(JSON.stringify(frame));
+        restartTimeout();
+        return true;
+      };
+
+      restartTimeout();
+
+      socket.on('open', () => {
+        Promise.resolve(send(sendFrame)).catch(finish);
+      });
+
+      socket.on('message', (raw) => {
+        restartTimeout();
+        let response: IflytekResponse;
+        try {
+          response = JSON.parse(raw.toString());
+        } catch {
+          finish(new Error('iFlyTek returned an invalid frame'));
+          return;
+        }
+
+        if (response.code !== 0) {
+          finish(new Error(`iFlyTek error ${response.code}: ${response.message}`));
+          return;
+        }
+
+        onResponse(response);
+
+        if (response.data?.status === STATUS_LAST) {
+          finish();
+        }
+      });
+
+      socket.on('error', (error) => finish(new Error(`iFlyTek connection failed: ${error.message}`)));
+      socket.on('close', () => finish(new Error('iFlyTek connection closed before the final frame')));
+    });
+  }
+
+  private scale(value: number): number {
+    return Math.round(Math.min(Math.max(value, 0), 100));
+  }
+}
+
+export class IflytekTtsProvider implements TtsProvider {
+  readonly name = 'iflytek';
+  readonly voices: Voice[] = IFLYTEK_VOICES.map((voice, index) => ({
+    ...voice,
+    provider: 'iflytek',
+    language: 'zh-CN',
+    sampleRate: SAMPLE_RATE,
+    styles: [],
+    local: false,
+    default: index === 0,
+  }));
+  private client: IflytekClient;
+
+  constructor(config: IflytekConfig = getIflytekConfig()) {
+    this.client = new IflytekClient(config);
+  }
+
+  async synthesize(text: string, voice: string, options: SynthesisOptions = {}): Promise<SynthesizedAudio> {
+    const pcm = await this.synthesizePcm(text, voice, options);
+    const { data, contentType } = encodeAudio(pcm, options.format);
+
+    return {
+      stream: bufferToStream(data),
+      contentType
+    };
+  }
+
+  async synthesizePcm(text: string, voice: string, options: SynthesisOptions = {}): Promise<PcmAudio> {
+    const vcn = !voice || voice === 'default' ? IFLYTEK_VOICES[0].id : voice;
+    const samples = await this.client.synthesizePcm(text, vcn, options);
+    return { samples, sampleRate: SAMPLE_RATE };
+  }
+}
+
+export class IflytekSttProvider implements SttProvider {
+  readonly name = 'iflytek';
+  private client: IflytekClient;
+
+  constructor(config: IflytekConfig = getIflytekConfig()) {
+    this.client = new IflytekClient(config);
+  }
+
+  async transcribe(audio: PcmAudio, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const { language = 'en-US' } = options;
+    const samples = resamplePcm(audio.samples, audio.sampleRate, SAMPLE_RATE);
+    const segments = await this.client.recognizePcm(samples, language);
+
+    return {
+      text: segments.map(segment => segment.text).join(''),
+      language,
+      segments
+    };
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Server-side speech provider registry
+ * Providers are selected with the TTS_PROVIDER / STT_PROVIDER environment variables
+ */
+
+import { IflytekSttProvider, IflytekTtsProvider } from './iflytek';
+import { ToneTtsProvider } from './tone-tts';
+import { WhisperCppSttProvider } from './whisper-cpp';
+import type { SttProvider } from './stt-provider';
+import type { TtsProvider } from './tts-provider';
+
+export type { SynthesisOptions, SynthesizedAudio, TtsProvider } from './tts-provider';
+export type { SttProvider, TranscriptionOptions, TranscriptionResult } from './stt-provider';
+
+const DEFAULT_TTS_PROVIDER = 'tone';
+const DEFAULT_STT_PROVIDER = 'whisper-cpp';
+
+const ttsProviders: Record<string, () => TtsProvider> = {
+  tone: () => new ToneTtsProvider(),
+  iflytek: () => new IflytekTtsProvider(),
+};
+
+const sttProviders: Record<string, () => SttProvider> = {
+  'whisper-cpp': () => new WhisperCppSttProvider(),
+  iflytek: () => new IflytekSttProvider(),
+};
+
+let cachedTtsProvider: TtsProvider | null = null;
+let cachedSttProvider: SttProvider | null = null;
+
+/**
+ * Get the configured TTS provider (defaults to the offline tone generator)
+ */
+export function getTtsProvider(): TtsProvider {
+  const name = (process.env.TTS_PROVIDER || DEFAULT_TTS_PROVIDER).toLowerCase();
+
+  if (cachedTtsProvider && cachedTtsProvider.name === name) {
+    return cachedTtsProvider;
+  }
+
+  const factory = ttsProviders[name];
+  if (!factory) {
+    throw new Error(`Unknown TTS provider: ${name}`);
+  }
+
+  cachedTtsProvider = factory();
+  return cachedTtsProvider;
+}
+
+/**
+ * Get the configured STT provider (defaults to the offline whisper.cpp recognizer)
+ */
+export function getSttProvider(): SttProvider {
+  const name = (process.env.STT_PROVIDER || DEFAULT_STT_PROVIDER).toLowerCase();
+
+  if (cachedSttProvider && cachedSttProvider.name === name) {
+    return cachedSttProvider;
+  }
+
+  const factory = sttProviders[name];
+  if (!factory) {
+    throw new Error(`Unknown STT provider: ${name}`);
+  }
+
+  cachedSttProvider = factory();
+  return cachedSttProvider;
+}
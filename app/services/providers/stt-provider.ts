@@ -0,0 +1,21 @@
+/**
+ * Server-side Speech-to-Text provider contract
+ */
+
+import type { PcmAudio } from '../audio/wav';
+import type { TranscriptSegment } from '../transcript';
+
+export interface TranscriptionOptions {
+  language?: string;  // BCP-47, e.g. 'en-US'
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language: string;
+  segments: TranscriptSegment[];
+}
+
+export interface SttProvider {
+  readonly name: string;
+  transcribe(audio: PcmAudio, options?: TranscriptionOptions): Promise<TranscriptionResult>;
+}
@@ -0,0 +1,161 @@
+/**
+ * Offline tone-generator TTS provider
+ * Deterministic: renders each word as a short tone burst so the speak route
+ * works (and can be tested) without network access
+ */
+
+import { encodeAudio } from '../audio/encoders';
+import type { PcmAudio } from '../audio/wav';
+import { parseSsml } from '../ssml';
+import type { Voice } from '../voices';
+import { bufferToStream, SynthesisOptions, SynthesizedAudio, TtsProvider } from './tts-provider';
+
+const SAMPLE_RATE = 16000;
+
+// Base frequency (Hz) per voice
+const TONE_VOICES: Record<string, number> = {
+  default: 220,
+  low: 140,
+  high: 330,
+};
+
+const TONE_VOICE_NAMES: Record<string, string> = {
+  default: 'Tone',
+  low: 'Tone (low)',
+  high: 'Tone (high)',
+};
+
+const CHAR_DURATION = 0.06;   // seconds per character at rate 1
+const WORD_GAP = 0.08;        // silence between words
+const SENTENCE_GAP = 0.35;    // silence after . ! ? etc.
+const FADE = 0.01;            // attack/release to avoid clicks
+
+export class ToneTtsProvider implements TtsProvider {
+  readonly name = 'tone';
+  readonly voices: Voice[] = Object.keys(TONE_VOICES).map(id => ({
+    id,
+    name: TONE_VOICE_NAMES[id],
+    provider: 'tone',
+    language: 'und',
+    gender: 'neutral',
+    sampleRate: SAMPLE_RATE,
+    styles: [],
+    local: false,
+    default: id === 'default',
+  }));
+
+  async synthesize(text: string, voice: string, options: SynthesisOptions = {}): Promise<SynthesizedAudio> {
+    const pcm = await this.synthesizePcm(text, voice, options);
+    const { data, contentType } = encodeAudio(pcm, options.format);
+
+    return {
+      stream: bufferToStream(data),
+      contentType
+    };
+  }
+
+  async synthesizePcm(text: string, voice: string, options: SynthesisOptions = {}): Promise<PcmAudio> {
+    return { samples: this.render(text, voice, options), sampleRate: SAMPLE_RATE };
+  }
+
+  /**
+   * Render SSML: each segment with its own prosody, breaks as silence
+   */
+  async synthesizeSsml(ssml: string, voice: string, options: SynthesisOptions = {}): Promise<SynthesizedAudio> {
+    const { rate = 1, pitch = 1, volume = 1 } = options;
+    const parts: Int16Array[] = [];
+
+    for (const segment of parseSsml(ssml).segments) {
+      if (segment.type === 'break') {
+        parts.push(new Int16Array(Math.round((segment.duration / 1000) * SAMPLE_RATE)));
+      } else {
+        parts.push(this.render(segment.text, voice, {
+          rate: rate * segment.prosody.rate,
+          pitch: pitch * segment.prosody.pitch,
+          volume: volume * segment.prosody.volume
+        }));
+      }
+    }
+
+    const samples = new Int16Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      samples.set(part, offset);
+      offset += part.length;
+    }
+
+    const { data, contentType } = encodeAudio({ samples, sampleRate: SAMPLE_RATE }, options.format);
+
+    return {
+      stream: bufferToStream(data),
+      contentType
+    };
+  }
+
+  /**
+   * Render text to 16-bit PCM samples
+   */
+  render(text: string, voice: string, options: SynthesisOptions = {}): Int16Array {
+    const rate = this.clamp(options.rate ?? 1, 0.1, 10);
+    const pitch = this.clamp(options.pitch ?? 1, 0, 2);
+    const volume = this.clamp(options.volume ?? 1, 0, 1);
+    const baseFrequency = (TONE_VOICES[voice] ?? TONE_VOICES.default) * (0.5 + pitch / 2);
+
+    const chunks: Float32Array[] = [];
+    const words = text.split(/\s+/).filter(Boolean);
+
+    for (const word of words) {
+      const letters = word.replace(/[^\p{L}\p{N}]/gu, '');
+      if (letters) {
+        const duration = (letters.length * CHAR_DURATION) / rate;
+        const frequency = baseFrequency * (1 + (this.wordHash(letters) % 12) / 24);
+        chunks.push(this.tone(frequency, duration, volume * 0.6));
+      }
+
+      const gap = /[.!?。！？]$/.test(word) ? SENTENCE_GAP : WORD_GAP;
+      chunks.push(new Float32Array(Math.round((gap / rate) * SAMPLE_RATE)));
+    }
+
+    const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const samples = new Int16Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+      for (let i = 0; i < chunk.length; i++) {
+        samples[offset + i] = Math.round(chunk[i] * 0x7fff);
+      }
+      offset += chunk.length;
+    }
+
+    return samples;
+  }
+
+  private tone(frequency: number, duration: number, amplitude: number): Float32Array {
+    const length = Math.max(1, Math.round(duration * SAMPLE_RATE));
+    const fadeLength = Math.min(Math.round(FADE * SAMPLE_RATE), Math.floor(length / 2));
+    const out = new Float32Array(length);
+
+    for (let i = 0; i < length; i++) {
+      let envelope = 1;
+      if (i < fadeLength) {
+        envelope = i / fadeLength;
+      } else if (i >= length - fadeLength) {
+        envelope = (length - i) / fadeLength;
+      }
+      out[i] = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * amplitude * envelope;
+    }
+
+    return out;
+  }
+
+  private wordHash(word: string): number {
+    let hash = 0;
+    for (let i = 0; i < word.length; i++) {
+      hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+  }
+
+  private clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+  }
+}
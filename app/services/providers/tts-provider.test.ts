@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseSsml } from '../ssml';
+import { streamToBuffer, synthesizeSentences, TtsProvider } from './tts-provider';
+
+const WAV_HEADER = 44;
+
+function fakeProvider(spoken: string[]): TtsProvider {
+  return {
+    name: 'fake',
+    voices: [{ id: 'v', name: 'V', provider: 'fake', language: 'en-US', gender: 'neutral', sampleRate: 16000, styles: [], default: true }],
+    synthesize: () => Promise.reject(new Error('not used')),
+    synthesizePcm: async text => {
+      spoken.push(text);
+      return { samples: new Int16Array(1600), sampleRate: 16000 };
+    },
+  };
+}
+
+describe('synthesizeSentences', () => {
+  it('renders a document of only breaks as silence', async () => {
+    const spoken: string[] = [];
+    const audio = await synthesizeSentences(fakeProvider(spoken), parseSsml('<speak><break time="500ms"/></speak>'), 'v');
+
+    expect(spoken).toEqual([]);
+    expect((await streamToBuffer(audio.stream)).length).toBe(WAV_HEADER + 8000 * 2);
+  });
+
+  it('speaks the sentences around a break', async () => {
+    const spoken: string[] = [];
+    const document = parseSsml('<speak>Hello there. <break time="1s"/>Bye now.</speak>');
+    const audio = await synthesizeSentences(fakeProvider(spoken), document, 'v');
+
+    expect((await streamToBuffer(audio.stream)).length).toBe(WAV_HEADER + (1600 + 16000 + 1600) * 2);
+    expect(spoken).toEqual(['Hello there.', 'Bye now.']);
+  });
+});
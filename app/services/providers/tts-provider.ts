@@ -0,0 +1,171 @@
+/**
+ * Server-side Text-to-Speech provider contract
+ */
+
+import { createStreamEncoder, StreamEncoder } from '../audio/encoders';
+import { AUDIO_FORMATS, AudioFormat } from '../audio/formats';
+import type { PcmAudio } from '../audio/wav';
+import type { SsmlDocument } from '../ssml';
+import { chunkText } from '../text-chunker';
+import type { Voice } from '../voices';
+
+export interface SynthesisOptions {
+  rate?: number;    // 0.1 to 10 (speed)
+  pitch?: number;   // 0 to 2 (pitch)
+  volume?: number;  // 0 to 1 (volume)
+  format?: AudioFormat;
+}
+
+export interface SynthesizedAudio {
+  stream: ReadableStream<Uint8Array>;
+  contentType: string;
+}
+
+// A sentence to render, or a silence in milliseconds (SSML <break>)
+type SpeechPart = { text: string } | { silence: number };
+
+// For silence rendered before the provider's first audio, when the voice has no sample rate
+const DEFAULT_SAMPLE_RATE = 24000;
+
+export interface TtsProvider {
+  readonly name: string;
+  readonly voices: readonly Voice[];    // catalog; 'default' is accepted as well
+  synthesize(text: string, voice: string, options?: SynthesisOptions): Promise<SynthesizedAudio>;
+
+  /**
+   * Render text to raw PCM (used to stream long text sentence by sentence)
+   */
+  synthesizePcm(text: string, voice: string, options?: SynthesisOptions): Promise<PcmAudio>;
+
+  /**
+   * Synthesize an SSML document natively (validated by the caller)
+   * Providers without it are given the plain text of the document instead
+   */
+  synthesizeSsml?(ssml: string, voice: string, options?: SynthesisOptions): Promise<SynthesizedAudio>;
+}
+
+/**
+ * Wrap a fully rendered buffer in a single-chunk stream
+ */
+export function bufferToStream(data: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(data);
+      controller.close();
+    }
+  });
+}
+
+/**
+ * Synthesize text one sentence at a time into a single encoded stream, so the
+ * first sentence can be played while the rest is still being rendered
+ * The first sentence is rendered before this resolves, so a failing provider
+ * rejects here (and becomes an error response) instead of ending the audio early
+ * A lowered SSML document is spoken as its plain text, with its breaks as silence
+ */
+export async function synthesizeSentences(
+  provider: TtsProvider,
+  input: string | SsmlDocument,
+  voice: string,
+  options: SynthesisOptions = {}
+): Promise<SynthesizedAudio> {
+  const format = options.format ?? 'wav';
+  const parts = speechParts(input);
+  let encoder: StreamEncoder | null = null;
+  let sampleRate = voiceSampleRate(provider, voice);
+  let index = 0;
+
+  const render = async (): Promise<Uint8Array> => {
+    const part = parts[index++];
+    if ('silence' in part) {
+      encoder = encoder ?? createStreamEncoder(format, sampleRate);
+      return encoder.write(new Int16Array(Math.round((part.silence / 1000) * sampleRate)));
+    }
+
+    const pcm = await provider.synthesizePcm(part.text, voice, options);
+    if (!encoder) {
+      sampleRate = pcm.sampleRate;
+      encoder = createStreamEncoder(format, sampleRate);
+    }
+    return encoder.write(pcm.samples);
+  };
+
+  let first: Uint8Array | null = parts.length > 0 ? await render() : null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (first || index < parts.length) {
+          const bytes = first ?? await render();
+          first = null;
+          if (bytes.length > 0) controller.enqueue(bytes);
+          return;
+        }
+
+        const tail = encoder?.end();
+        if (tail && tail.length > 0) controller.enqueue(tail);
+        controller.close();
+      } catch (error) {
+        // Headers are already sent; the client sees the body end with an error
+        console.error(`TTS stream failed at part ${index} of ${parts.length}:`, error);
+        encoder?.end();
+        controller.error(error);
+      }
+    },
+    cancel() {
+      // Release the encoder (Opus holds native memory)
+      encoder?.end();
+    }
+  });
+
+  return {
+    stream,
+    contentType: AUDIO_FORMATS[format].contentType
+  };
+}
+
+// Sentences, split around the document's breaks
+function speechParts(input: string | SsmlDocument): SpeechPart[] {
+  if (typeof input === 'string') {
+    return chunkText(input).map(chunk => ({ text: chunk.text }));
+  }
+
+  const parts: SpeechPart[] = [];
+  let start = 0;
+  for (const segment of input.segments) {
+    if (segment.type !== 'break') continue;
+    parts.push(...speechParts(input.text.slice(start, segment.offset)), { silence: segment.duration });
+    start = segment.offset;
+  }
+  parts.push(...speechParts(input.text.slice(start)));
+  return parts;
+}
+
+function voiceSampleRate(provider: TtsProvider, voice: string): number {
+  const match = provider.voices.find(v => v.id === voice) ?? provider.voices.find(v => v.default);
+  return match?.sampleRate ?? DEFAULT_SAMPLE_RATE;
+}
+
+/**
+ * Read a synthesized stream to the end
+ */
+export async function streamToBuffer(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+
+  const data = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
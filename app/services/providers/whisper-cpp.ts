@@ -0,0 +1,144 @@
+/**
+ * Offline whisper.cpp STT provider
+ * Runs the whisper.cpp CLI (WHISPER_CPP_BIN) with a local ggml model (WHISPER_CPP_MODEL)
+ */
+
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { encodeWav, PcmAudio, resamplePcm } from '../audio/wav';
+import { SttProvider, TranscriptionOptions, TranscriptionResult } from './stt-provider';
+import type { TranscriptSegment, TranscriptWord } from '../transcript';
+
+const execFileAsync = promisify(execFile);
+
+const SAMPLE_RATE = 16000;        // whisper.cpp only accepts 16kHz input
+const DEFAULT_BIN = 'whisper-cli';
+const PROCESS_TIMEOUT = 5 * 60 * 1000;
+
+export interface WhisperCppConfig {
+  bin: string;
+  model: string;
+  threads?: number;
+}
+
+// Output of `whisper-cli -ojf` (full JSON, with per-token timing and probability)
+interface WhisperCppOutput {
+  transcription: {
+    offsets: { from: number; to: number };  // milliseconds
+    text: string;
+    tokens?: {
+      text: string;
+      offsets: { from: number; to: number };
+      p: number;
+    }[];
+  }[];
+}
+
+/**
+ * Read the whisper.cpp configuration from environment variables
+ */
+export function getWhisperCppConfig(): WhisperCppConfig {
+  const model = process.env.WHISPER_CPP_MODEL;
+
+  if (!model) {
+    throw new Error('whisper.cpp model is not configured (WHISPER_CPP_MODEL)');
+  }
+
+  return {
+    bin: process.env.WHISPER_CPP_BIN || DEFAULT_BIN,
+    model,
+    threads: process.env.WHISPER_CPP_THREADS ? Number(process.env.WHISPER_CPP_THREADS) : undefined,
+  };
+}
+
+export class WhisperCppSttProvider implements SttProvider {
+  readonly name = 'whisper-cpp';
+  private config: WhisperCppConfig;
+
+  constructor(config: WhisperCppConfig = getWhisperCppConfig()) {
+    this.config = config;
+  }
+
+  async transcribe(audio: PcmAudio, options: TranscriptionOptions = {}): Promise<TranscriptionResult> {
+    const { language = 'en-US' } = options;
+    const dir = await mkdtemp(path.join(tmpdir(), 'whisper-'));
+
+    try {
+      const input = path.join(dir, 'input.wav');
+      const outputBase = path.join(dir, 'output');
+      const samples = resamplePcm(audio.samples, audio.sampleRate, SAMPLE_RATE);
+      await writeFile(input, encodeWav({ samples, sampleRate: SAMPLE_RATE }));
+
+      const args = [
+        '-m', this.config.model,
+        '-f', input,
+        '-l', language.split('-')[0].toLowerCase(),
+        '-ojf',
+        '-of', outputBase,
+        '-np',
+      ];
+      if (this.config.threads) {
+        args.push('-t', String(this.config.threads));
+      }
+
+      await execFileAsync(this.config.bin, args, { timeout: PROCESS_TIMEOUT });
+
+      const output: WhisperCppOutput = JSON.parse(await readFile(`${outputBase}.json`, 'utf8'));
+      const segments = output.transcription
+        .map(segment => this.toSegment(segment))
+        .filter(segment => segment.text);
+
+      return {
+        text: segments.map(segment => segment.text).join(' '),
+        language,
+        segments
+      };
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Merge whisper tokens (sub-word pieces, a leading space starts a new word) into timed words
+   */
+  private toSegment(segment: WhisperCppOutput['transcription'][number]): TranscriptSegment {
+    const words: (TranscriptWord & { probabilities: number[] })[] = [];
+
+    for (const token of segment.tokens ?? []) {
+      // Skip special tokens such as [_BEG_] and [_TT_150]
+      if (token.text.startsWith('[_') || !token.text.trim()) continue;
+
+      const start = token.offsets.from / 1000;
+      const end = token.offsets.to / 1000;
+      const current = words[words.length - 1];
+
+      if (!current || token.text.startsWith(' ')) {
+        words.push({ text: token.text.trim(), start, end, probabilities: [token.p] });
+      } else {
+        current.text += token.text;
+        current.end = end;
+        current.probabilities.push(token.p);
+      }
+    }
+
+    const text = segment.text.trim();
+    const confidences = words.map(({ probabilities }) => average(probabilities));
+
+    return {
+      text,
+      start: segment.offsets.from / 1000,
+      end: segment.offsets.to / 1000,
+      confidence: confidences.length > 0 ? average(confidences) : undefined,
+      alternatives: [{ text }],
+      isFinal: true,
+      words: words.map(({ probabilities, ...word }) => ({ ...word, confidence: average(probabilities) })),
+    };
+  }
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -0,0 +1,71 @@
+/**
+ * In-memory token-bucket rate limiter
+ * Each client gets a bucket of `capacity` tokens that refills continuously
+ * at `capacity` tokens per window; a request spends one token
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;        // bucket capacity
+  remaining: number;    // whole tokens left after this request
+  retryAfter: number;   // seconds until a token is available (0 when allowed)
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;    // epoch milliseconds
+}
+
+// Idle, full buckets are dropped once the map grows past this
+const PRUNE_THRESHOLD = 10000;
+
+export class TokenBucketLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private windowMs = 60000) {}
+
+  /**
+   * Spend a token for `id`; capacity 0 (or less) means unlimited
+   */
+  take(id: string, capacity: number, now = Date.now()): RateLimitResult {
+    if (capacity <= 0) {
+      return { allowed: true, limit: 0, remaining: Infinity, retryAfter: 0 };
+    }
+
+    const refillPerMs = capacity / this.windowMs;
+    const bucket = this.refill(this.buckets.get(id), capacity, refillPerMs, now);
+    this.buckets.set(id, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      this.prune(capacity, refillPerMs, now);
+      return { allowed: true, limit: capacity, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+    }
+
+    return {
+      allowed: false,
+      limit: capacity,
+      remaining: 0,
+      retryAfter: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000),
+    };
+  }
+
+  private refill(bucket: Bucket | undefined, capacity: number, refillPerMs: number, now: number): Bucket {
+    if (!bucket) {
+      return { tokens: capacity, updatedAt: now };
+    }
+
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    return { tokens: Math.min(capacity, bucket.tokens + elapsed * refillPerMs), updatedAt: now };
+  }
+
+  private prune(capacity: number, refillPerMs: number, now: number): void {
+    if (this.buckets.size <= PRUNE_THRESHOLD) return;
+
+    for (const [id, bucket] of this.buckets) {
+      if (this.refill(bucket, capacity, refillPerMs, now).tokens >= capacity) {
+        this.buckets.delete(id);
+      }
+    }
+  }
+}
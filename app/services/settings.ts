@@ -0,0 +1,200 @@
+/**
+ * User settings persisted to localStorage
+ * Stored as { version, ...settings }; older versions are migrated on load
+ * and invalid fields fall back to their defaults. Browser only
+ */
+
+import { LexiconEntry, validateLexiconEntry } from './lexicon';
+import { PROSODY_RANGES, ProsodyField } from './speak-request';
+import { DEFAULT_NORMALIZE_OPTIONS, NormalizeOptions, validateNormalizeOptions } from './text-normalizer';
+import { RestoreOptions, validateRestoreOptions } from './transcript-restore';
+import { validateProfile, VoiceProfile } from './voice-profiles';
+
+export const SETTINGS_VERSION = 5;
+
+const STORAGE_KEY = 'speech-settings';
+
+// Before versioned settings, favorite voices were stored on their own
+const LEGACY_FAVORITES_KEY = 'voice-favorites';
+
+/**
+ * A selected voice, with enough detail to find a close match if it is gone
+ */
+export interface SavedVoice {
+  key: string;          // voiceKey()
+  name: string;
+  language: string;
+}
+
+export interface UserSettings {
+  mode: 'tts' | 'stt';
+  voice: SavedVoice | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+  language: string;     // speech recognition language
+  favoriteVoices: string[];   // voiceKey() values
+  profiles: VoiceProfile[];   // user-defined; built-ins are not stored
+  restore: Record<string, RestoreOptions>;    // transcript restoration, by primary language
+  lexicon: LexiconEntry[];    // pronunciations, global and per profile
+  normalize: NormalizeOptions;    // TTS text normalization rules
+}
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  mode: 'tts',
+  voice: null,
+  rate: 1,
+  pitch: 1,
+  volume: 1,
+  language: 'en-US',
+  favoriteVoices: [],
+  profiles: [],
+  restore: {},
+  lexicon: [],
+  normalize: DEFAULT_NORMALIZE_OPTIONS,
+};
+
+type StoredSettings = Record<string, unknown> & { version?: number };
+
+// Each entry upgrades settings stored by that version to the next one
+const MIGRATIONS: Record<number, (stored: StoredSettings) => StoredSettings> = {
+  // Unversioned: only the standalone favorites list existed
+  0: stored => ({ ...stored, favoriteVoices: readLegacyFavorites() }),
+  // Version 2 added voice profiles
+  1: stored => ({ ...stored, profiles: [] }),
+  // Version 3 added transcript restoration options
+  2: stored => ({ ...stored, restore: {} }),
+  // Version 4 added the pronunciation lexicon
+  3: stored => ({ ...stored, lexicon: [] }),
+  // Version 5 added text normalization rules
+  4: stored => ({ ...stored, normalize: DEFAULT_NORMALIZE_OPTIONS }),
+};
+
+/**
+ * Load settings, migrating older stored versions (defaults if nothing is stored)
+ */
+export function loadSettings(): UserSettings {
+  return parseSettings(readStorage(STORAGE_KEY));
+}
+
+/**
+ * Save the settings shared by all tabs, keeping the stored mode (see
+ * saveMode); unchanged settings are not rewritten, so other tabs are not
+ * notified of no-op saves and a tab applying another tab's settings does not
+ * send them back
+ */
+export function saveSettings(settings: Omit<UserSettings, 'mode'>): void {
+  writeSettings({ ...settings, mode: loadSettings().mode });
+}
+
+/**
+ * Save the mode new tabs open in; open tabs keep their own
+ */
+export function saveMode(mode: UserSettings['mode']): void {
+  writeSettings({ ...loadSettings(), mode });
+}
+
+function writeSettings(settings: UserSettings): void {
+  // Fields in a fixed order, so equal settings serialize identically
+  const fields = (Object.keys(DEFAULT_SETTINGS) as (keyof UserSettings)[]).map(key => [key, settings[key]]);
+  const serialized = JSON.stringify({ version: SETTINGS_VERSION, ...Object.fromEntries(fields) });
+
+  try {
+    if (localStorage.getItem(STORAGE_KEY) === serialized) return;
+    localStorage.setItem(STORAGE_KEY, serialized);
+    localStorage.removeItem(LEGACY_FAVORITES_KEY);
+  } catch (error) {
+    console.warn('Could not save settings:', error);
+  }
+}
+
+/**
+ * Call listener with the new settings whenever another tab saves them
+ * Returns an unsubscribe function
+ */
+export function subscribeSettings(listener: (settings: UserSettings) => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.storageArea === localStorage && event.key === STORAGE_KEY && event.newValue) {
+      listener(parseSettings(event.newValue));
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
+
+function parseSettings(serialized: string | null): UserSettings {
+  let stored: StoredSettings = {};
+  try {
+    const parsed = serialized ? JSON.parse(serialized) : {};
+    if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+      stored = parsed;
+    }
+  } catch {
+    // Corrupt settings are replaced by the defaults
+  }
+
+  return validate(migrate(stored));
+}
+
+function migrate(stored: StoredSettings): StoredSettings {
+  let version = typeof stored.version === 'number' ? stored.version : 0;
+
+  while (version < SETTINGS_VERSION) {
+    // Not a version this code wrote (negative, fractional): start over
+    if (!MIGRATIONS[version]) return {};
+    stored = MIGRATIONS[version](stored);
+    version++;
+  }
+  return stored;
+}
+
+function validate(stored: StoredSettings): UserSettings {
+  const voice = stored.voice as Partial<SavedVoice> | null | undefined;
+
+  return {
+    mode: stored.mode === 'stt' ? 'stt' : 'tts',
+    voice:
+      voice && typeof voice.key === 'string'
+        ? { key: voice.key, name: String(voice.name ?? ''), language: String(voice.language ?? '') }
+        : null,
+    rate: prosody('rate', stored.rate),
+    pitch: prosody('pitch', stored.pitch),
+    volume: prosody('volume', stored.volume),
+    language: typeof stored.language === 'string' && stored.language ? stored.language : DEFAULT_SETTINGS.language,
+    favoriteVoices: Array.isArray(stored.favoriteVoices)
+      ? stored.favoriteVoices.filter((key): key is string => typeof key === 'string')
+      : [],
+    profiles: Array.isArray(stored.profiles)
+      ? stored.profiles.map(validateProfile).filter((profile): profile is VoiceProfile => profile !== null)
+      : [],
+    restore: validateRestoreOptions(stored.restore),
+    lexicon: Array.isArray(stored.lexicon)
+      ? stored.lexicon.map(validateLexiconEntry).filter((entry): entry is LexiconEntry => entry !== null)
+      : [],
+    normalize: validateNormalizeOptions(stored.normalize),
+  };
+}
+
+function prosody(field: ProsodyField, value: unknown): number {
+  const { min, max } = PROSODY_RANGES[field];
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+    ? value
+    : DEFAULT_SETTINGS[field];
+}
+
+function readLegacyFavorites(): unknown {
+  try {
+    return JSON.parse(readStorage(LEGACY_FAVORITES_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+function readStorage(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * /api/speak request schema and error contract
+ * Shared by the route (validation) and the browser (error messages)
+ */
+
+import { AUDIO_FORMATS, AudioFormat, isAudioFormat } from './audio/formats';
+
+export const MAX_TEXT_LENGTH = 20000;   // characters, markup included for SSML
+
+// Same ranges TextToSpeech clamps browser utterances to
+export const PROSODY_RANGES = {
+  rate: { min: 0.1, max: 10 },
+  pitch: { min: 0, max: 2 },
+  volume: { min: 0, max: 1 },
+} as const;
+
+export type ProsodyField = keyof typeof PROSODY_RANGES;
+
+export interface SpeakRequest {
+  text: string;
+  ssml: boolean;
+  voice: string;
+  format: AudioFormat;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export type SpeakErrorCode =
+  | 'INVALID_JSON'
+  | 'INVALID_REQUEST'
+  | 'TEXT_REQUIRED'
+  | 'TEXT_TOO_LONG'
+  | 'UNKNOWN_VOICE'
+  | 'UNSUPPORTED_FORMAT'
+  | 'INVALID_PROSODY'
+  | 'INVALID_SSML'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'RATE_LIMITED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * JSON body of every /api/speak error response
+ */
+export interface SpeakErrorBody {
+  error: string;          // developer-facing detail
+  code: SpeakErrorCode;
+  field?: string;         // request field at fault
+  position?: number;      // character offset, for INVALID_SSML
+}
+
+export const SPEAK_ERROR_STATUS: Record<SpeakErrorCode, number> = {
+  INVALID_JSON: 400,
+  INVALID_REQUEST: 400,
+  TEXT_REQUIRED: 400,
+  TEXT_TOO_LONG: 413,
+  UNKNOWN_VOICE: 400,
+  UNSUPPORTED_FORMAT: 400,
+  INVALID_PROSODY: 400,
+  INVALID_SSML: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+};
+
+// User-facing messages for the UI
+export const SPEAK_ERROR_MESSAGES: Record<SpeakErrorCode, string> = {
+  INVALID_JSON: 'The request could not be read. Please try again.',
+  INVALID_REQUEST: 'The request was not valid. Please try again.',
+  TEXT_REQUIRED: 'Enter some text to speak.',
+  TEXT_TOO_LONG: `The text is too long. Please keep it under ${MAX_TEXT_LENGTH.toLocaleString('en-US')} characters.`,
+  UNKNOWN_VOICE: 'The selected voice is not available on the server. Choose another voice.',
+  UNSUPPORTED_FORMAT: 'That audio format is not supported. Choose WAV, MP3 or Ogg.',
+  INVALID_PROSODY: 'Speed, pitch or volume is out of range.',
+  INVALID_SSML: 'The SSML markup is invalid.',
+  UNAUTHORIZED: 'The speech server needs a valid API key.',
+  FORBIDDEN: 'This API key is not allowed to do that.',
+  RATE_LIMITED: 'Too many requests. Please wait a moment and try again.',
+  INTERNAL_ERROR: 'Speech synthesis is unavailable right now. Please try again.',
+};
+
+export class SpeakRequestError extends Error {
+  constructor(readonly code: SpeakErrorCode, message: string, readonly field?: string, readonly position?: number) {
+    super(message);
+    this.name = 'SpeakRequestError';
+  }
+
+  get status(): number {
+    return SPEAK_ERROR_STATUS[this.code];
+  }
+
+  toJSON(): SpeakErrorBody {
+    return { error: this.message, code: this.code, field: this.field, position: this.position };
+  }
+}
+
+/**
+ * Validate a speak request; throws SpeakRequestError on the first problem
+ * voice and format come from the query string, the rest from the JSON body;
+ * voices lists the provider's voice IDs ('default' is always accepted)
+ */
+export function parseSpeakRequest(
+  body: unknown,
+  params: URLSearchParams,
+  voices: readonly string[]
+): SpeakRequest {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new SpeakRequestError('INVALID_REQUEST', 'Request body must be a JSON object');
+  }
+
+  const { text, ssml = false, rate = 1, pitch = 1, volume = 1 } = body as Record<string, unknown>;
+
+  if (typeof text !== 'string') {
+    throw new SpeakRequestError('INVALID_REQUEST', 'text must be a string', 'text');
+  }
+  if (!text.trim()) {
+    throw new SpeakRequestError('TEXT_REQUIRED', 'Text is required', 'text');
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new SpeakRequestError(
+      'TEXT_TOO_LONG',
+      `Text is ${text.length} characters; the limit is ${MAX_TEXT_LENGTH}`,
+      'text'
+    );
+  }
+  if (typeof ssml !== 'boolean') {
+    throw new SpeakRequestError('INVALID_REQUEST', 'ssml must be a boolean', 'ssml');
+  }
+
+  const format = params.get('format') ?? 'wav';
+  if (!isAudioFormat(format)) {
+    throw new SpeakRequestError(
+      'UNSUPPORTED_FORMAT',
+      `Unsupported format: ${format} (expected ${Object.keys(AUDIO_FORMATS).join(', ')})`,
+      'format'
+    );
+  }
+
+  const voice = params.get('voice') ?? 'default';
+  if (voice !== 'default' && !voices.includes(voice)) {
+    throw new SpeakRequestError('UNKNOWN_VOICE', `Unknown voice: ${voice}`, 'voice');
+  }
+
+  return {
+    text,
+    ssml,
+    voice,
+    format,
+    rate: prosodyValue('rate', rate),
+    pitch: prosodyValue('pitch', pitch),
+    volume: prosodyValue('volume', volume),
+  };
+}
+
+/**
+ * Read an error response from /api/speak (falls back to INTERNAL_ERROR for
+ * bodies that do not follow the contract)
+ */
+export async function readSpeakError(response: Response): Promise<SpeakRequestError> {
+  try {
+    const body = (await response.json()) as Partial<SpeakErrorBody>;
+    if (body.code && body.code in SPEAK_ERROR_STATUS) {
+      return new SpeakRequestError(body.code, body.error ?? body.code, body.field, body.position);
+    }
+  } catch {
+    // Not JSON
+  }
+  return new SpeakRequestError('INTERNAL_ERROR', `Speak route returned ${response.status}`);
+}
+
+/**
+ * User-facing message for any error thrown while synthesizing speech
+ */
+export function speakErrorMessage(error: unknown): string {
+  if (error instanceof SpeakRequestError) {
+    return error.code === 'INVALID_SSML'
+      ? `${SPEAK_ERROR_MESSAGES.INVALID_SSML} ${error.message}`
+      : SPEAK_ERROR_MESSAGES[error.code];
+  }
+  return SPEAK_ERROR_MESSAGES.INTERNAL_ERROR;
+}
+
+function prosodyValue(field: ProsodyField, value: unknown): number {
+  const { min, max } = PROSODY_RANGES[field];
+
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new SpeakRequestError('INVALID_PROSODY', `${field} must be a number from ${min} to ${max}`, field);
+  }
+  return value;
+}
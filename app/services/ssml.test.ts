@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { parseSsml } from './ssml';
+
+describe('parseSsml entities', () => {
+  it('decodes the predefined XML entities', () => {
+    expect(parseSsml('<speak>a &lt; b &amp; c</speak>').text).toBe('a < b & c');
+  });
+
+  it('rejects names inherited from Object.prototype', () => {
+    expect(() => parseSsml('<speak>&constructor;</speak>')).toThrow('Unknown entity &constructor;');
+    expect(() => parseSsml('<speak>&toString;</speak>')).toThrow('Unknown entity &toString;');
+  });
+});
@@ -0,0 +1,584 @@
+/**
+ * SSML (Speech Synthesis Markup Language) support
+ * Validates markup and lowers it to plain text plus prosody segments and
+ * silences, for backends that cannot take SSML natively
+ */
+
+export interface SsmlProsody {
+  rate: number;     // multiplier on the requested rate
+  pitch: number;    // multiplier on the requested pitch
+  volume: number;   // multiplier on the requested volume
+}
+
+export interface SsmlTextSegment {
+  type: 'text';
+  text: string;
+  start: number;    // character offset in SsmlDocument.text
+  end: number;      // exclusive
+  prosody: SsmlProsody;
+}
+
+export interface SsmlBreakSegment {
+  type: 'break';
+  duration: number; // milliseconds
+  offset: number;   // character offset in SsmlDocument.text
+}
+
+export type SsmlSegment = SsmlTextSegment | SsmlBreakSegment;
+
+export interface SsmlDocument {
+  text: string;             // what gets spoken, with the markup removed
+  lang?: string;            // xml:lang of <speak>
+  segments: SsmlSegment[];
+  warnings: string[];       // markup that could not be honoured
+}
+
+/**
+ * Malformed or invalid SSML; position is the character offset in the markup
+ */
+export class SsmlError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(`${message} (at character ${position})`);
+    this.name = 'SsmlError';
+  }
+}
+
+export interface SsmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: SsmlNode[];
+  position: number;
+}
+
+export type SsmlNode = SsmlElement | string;
+
+interface LoweringState {
+  text: string;
+  segments: SsmlSegment[];
+  warnings: Set<string>;
+  pendingSpace: boolean;    // whitespace seen since the last text
+  boundary: boolean;        // next text starts a new segment (after <p>, <s>, <break>)
+}
+
+const NEUTRAL: SsmlProsody = { rate: 1, pitch: 1, volume: 1 };
+
+const MAX_BREAK = 10000;
+
+const BREAK_STRENGTHS: Record<string, number> = {
+  none: 0,
+  'x-weak': 100,
+  weak: 250,
+  medium: 400,
+  strong: 700,
+  'x-strong': 1200,
+};
+
+const RATE_KEYWORDS: Record<string, number> = {
+  'x-slow': 0.5, slow: 0.75, medium: 1, default: 1, fast: 1.5, 'x-fast': 2,
+};
+
+const PITCH_KEYWORDS: Record<string, number> = {
+  'x-low': 0.7, low: 0.85, medium: 1, default: 1, high: 1.15, 'x-high': 1.3,
+};
+
+const VOLUME_KEYWORDS: Record<string, number> = {
+  silent: 0, 'x-soft': 0.25, soft: 0.5, medium: 1, default: 1, loud: 1.25, 'x-loud': 1.5,
+};
+
+const EMPHASIS_LEVELS: Record<string, SsmlProsody> = {
+  strong: { rate: 0.85, pitch: 1.1, volume: 1.2 },
+  moderate: { rate: 0.92, pitch: 1.05, volume: 1.1 },
+  none: NEUTRAL,
+  reduced: { rate: 1.1, pitch: 0.95, volume: 0.8 },
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+};
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const DATE_FORMATS = ['mdy', 'dmy', 'ymd', 'md', 'dm', 'ym', 'my', 'd', 'm', 'y'];
+
+// Elements whose text is spoken but whose effect cannot be reproduced
+const PASS_THROUGH_WARNINGS: Record<string, string> = {
+  phoneme: '<phoneme> pronunciations are not supported; the text is spoken as written',
+  voice: '<voice> changes are not supported; the text is spoken with the selected voice',
+  lang: '<lang> switches are not supported; the text is spoken with the selected voice',
+  audio: '<audio> clips are not supported; their fallback text is spoken instead',
+};
+
+/**
+ * Check whether input looks like an SSML document (rather than plain text)
+ */
+export function isSsml(text: string): boolean {
+  return /^\s*(<\?xml[\s\S]*?\?>\s*)?<speak[\s>/]/.test(text);
+}
+
+/**
+ * Parse and validate SSML; throws SsmlError for malformed markup
+ */
+export function parseSsml(markup: string): SsmlDocument {
+  const root = parseTree(markup);
+  const elements = root.children.filter((node): node is SsmlElement => typeof node !== 'string');
+  const strayText = root.children.some(node => typeof node === 'string' && node.trim());
+
+  if (elements.length !== 1 || elements[0].name !== 'speak' || strayText) {
+    throw new SsmlError('SSML must have a single <speak> root element', 0);
+  }
+
+  const speak = elements[0];
+  const state: LoweringState = {
+    text: '',
+    segments: [],
+    warnings: new Set(),
+    pendingSpace: false,
+    boundary: false,
+  };
+
+  lowerChildren(speak, NEUTRAL, state);
+
+  return {
+    text: state.text,
+    lang: speak.attributes['xml:lang'],
+    segments: state.segments,
+    warnings: Array.from(state.warnings),
+  };
+}
+
+/**
+ * Build the element tree, checking that tags, attributes and entities are well formed
+ * (also used to read PLS lexicons, which are XML as well)
+ */
+export function parseTree(markup: string): SsmlElement {
+  const root: SsmlElement = { name: '#document', attributes: {}, children: [], position: 0 };
+  const stack = [root];
+  let i = 0;
+
+  while (i < markup.length) {
+    const parent = stack[stack.length - 1];
+    const lt = markup.indexOf('<', i);
+    const textEnd = lt === -1 ? markup.length : lt;
+
+    if (textEnd > i) {
+      parent.children.push(decodeEntities(markup.slice(i, textEnd), i));
+    }
+    if (lt === -1) break;
+
+    if (markup.startsWith('<!--', lt)) {
+      i = skipPast(markup, '-->', lt, 'Unclosed comment');
+      continue;
+    }
+    if (markup.startsWith('<![CDATA[', lt)) {
+      const end = skipPast(markup, ']]>', lt, 'Unclosed CDATA section');
+      parent.children.push(markup.slice(lt + 9, end - 3));
+      i = end;
+      continue;
+    }
+    if (markup.startsWith('<?', lt)) {
+      i = skipPast(markup, '?>', lt, 'Unclosed processing instruction');
+      continue;
+    }
+
+    const gt = findTagEnd(markup, lt);
+    const body = markup.slice(lt + 1, gt);
+
+    if (body.startsWith('/')) {
+      const name = body.slice(1).trim();
+      if (stack.length === 1) {
+        throw new SsmlError(`Unexpected closing tag </${name}>`, lt);
+      }
+      if (parent.name !== name) {
+        throw new SsmlError(`Expected </${parent.name}> but found </${name}>`, lt);
+      }
+      stack.pop();
+    } else {
+      const selfClosing = body.endsWith('/');
+      const element = parseTag(selfClosing ? body.slice(0, -1) : body, lt);
+      parent.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+
+    i = gt + 1;
+  }
+
+  if (stack.length > 1) {
+    const open = stack[stack.length - 1];
+    throw new SsmlError(`Unclosed <${open.name}>`, open.position);
+  }
+
+  return root;
+}
+
+function skipPast(markup: string, terminator: string, from: number, message: string): number {
+  const end = markup.indexOf(terminator, from);
+  if (end === -1) {
+    throw new SsmlError(message, from);
+  }
+  return end + terminator.length;
+}
+
+/**
+ * Index of the '>' closing the tag at `start`, ignoring '>' inside quoted values
+ */
+function findTagEnd(markup: string, start: number): number {
+  let quote = '';
+  for (let i = start + 1; i < markup.length; i++) {
+    const char = markup[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '<') {
+      break;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  throw new SsmlError('Unterminated tag', start);
+}
+
+function parseTag(body: string, position: number): SsmlElement {
+  const nameMatch = body.match(/^([A-Za-z_][\w:.-]*)/);
+  if (!nameMatch) {
+    throw new SsmlError('Invalid tag name', position);
+  }
+
+  const name = nameMatch[1];
+  const attributes: Record<string, string> = {};
+  const attributePattern = /\s+([A-Za-z_][\w:.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+  let cursor = name.length;
+
+  while (cursor < body.length) {
+    if (!body.slice(cursor).trim()) break;
+
+    attributePattern.lastIndex = cursor;
+    const match = attributePattern.exec(body);
+    if (!match) {
+      throw new SsmlError(`Malformed attribute in <${name}>`, position);
+    }
+    if (match[1] in attributes) {
+      throw new SsmlError(`Duplicate attribute "${match[1]}" in <${name}>`, position);
+    }
+
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3], position);
+    cursor = attributePattern.lastIndex;
+  }
+
+  return { name, attributes, children: [], position };
+}
+
+function decodeEntities(text: string, position: number): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z]+)?(;)?/g, (match, reference, semicolon, offset) => {
+    if (!reference || !semicolon) {
+      throw new SsmlError("Unescaped '&' (write &amp;)", position + offset);
+    }
+    if (reference.startsWith('#')) {
+      const code = reference[1] === 'x' ? parseInt(reference.slice(2), 16) : parseInt(reference.slice(1), 10);
+      if (code > 0x10ffff) {
+        throw new SsmlError(`Invalid character reference &${reference};`, position + offset);
+      }
+      return String.fromCodePoint(code);
+    }
+    if (!Object.prototype.hasOwnProperty.call(ENTITIES, reference)) {
+      throw new SsmlError(`Unknown entity &${reference};`, position + offset);
+    }
+    return ENTITIES[reference];
+  });
+}
+
+function lowerChildren(element: SsmlElement, prosody: SsmlProsody, state: LoweringState): void {
+  for (const child of element.children) {
+    if (typeof child === 'string') {
+      appendText(state, child, prosody);
+    } else {
+      lowerElement(child, prosody, state);
+    }
+  }
+}
+
+function lowerElement(element: SsmlElement, prosody: SsmlProsody, state: LoweringState): void {
+  const { name, attributes } = element;
+
+  switch (name) {
+    case 'speak':
+      throw new SsmlError('<speak> cannot be nested', element.position);
+
+    case 'p':
+    case 's':
+      state.boundary = true;
+      lowerChildren(element, prosody, state);
+      state.boundary = true;
+      break;
+
+    case 'break':
+      appendBreak(state, breakDuration(element, state));
+      break;
+
+    case 'prosody':
+      lowerChildren(element, applyProsody(prosody, element, state), state);
+      break;
+
+    case 'emphasis': {
+      const level = attributes.level ?? 'moderate';
+      const emphasis = EMPHASIS_LEVELS[level];
+      if (!emphasis) {
+        throw new SsmlError(`Invalid emphasis level "${level}"`, element.position);
+      }
+      lowerChildren(element, combine(prosody, emphasis), state);
+      break;
+    }
+
+    case 'say-as':
+      appendText(state, sayAs(element, state), prosody);
+      break;
+
+    case 'sub':
+      if (attributes.alias === undefined) {
+        throw new SsmlError('<sub> requires an alias attribute', element.position);
+      }
+      appendText(state, attributes.alias, prosody);
+      break;
+
+    case 'desc':
+    case 'mark':
+      break;
+
+    default:
+      state.warnings.add(
+        PASS_THROUGH_WARNINGS[name] ?? `<${name}> is not a supported SSML element; its text is spoken as written`
+      );
+      lowerChildren(element, prosody, state);
+  }
+}
+
+/**
+ * Append spoken text, collapsing whitespace and merging with the previous
+ * segment when the prosody is unchanged
+ */
+function appendText(state: LoweringState, raw: string, prosody: SsmlProsody): void {
+  const content = raw.trim().replace(/\s+/g, ' ');
+  if (!content) {
+    state.pendingSpace = state.pendingSpace || raw.length > 0;
+    return;
+  }
+
+  if (state.text && (state.pendingSpace || /^\s/.test(raw))) {
+    state.text += ' ';
+  }
+
+  const start = state.text.length;
+  state.text += content;
+  state.pendingSpace = /\s$/.test(raw);
+
+  const last = state.segments[state.segments.length - 1];
+  if (!state.boundary && last?.type === 'text' && sameProsody(last.prosody, prosody)) {
+    last.end = state.text.length;
+    last.text = state.text.slice(last.start, last.end);
+  } else {
+    state.segments.push({ type: 'text', text: content, start, end: state.text.length, prosody });
+  }
+
+  state.boundary = false;
+}
+
+function appendBreak(state: LoweringState, duration: number): void {
+  state.boundary = true;
+  state.pendingSpace = true;
+  if (duration <= 0) return;
+
+  const last = state.segments[state.segments.length - 1];
+  if (last?.type === 'break') {
+    last.duration = Math.min(MAX_BREAK, last.duration + duration);
+  } else {
+    state.segments.push({ type: 'break', duration, offset: state.text.length });
+  }
+}
+
+function breakDuration(element: SsmlElement, state: LoweringState): number {
+  const { time, strength } = element.attributes;
+
+  if (time !== undefined) {
+    const match = time.trim().match(/^(\d+(?:\.\d+)?|\.\d+)\s*(ms|s)$/);
+    if (!match) {
+      throw new SsmlError(`Invalid break time "${time}" (use e.g. 500ms or 1.5s)`, element.position);
+    }
+
+    const duration = Number(match[1]) * (match[2] === 's' ? 1000 : 1);
+    if (duration > MAX_BREAK) {
+      state.warnings.add(`Breaks longer than ${MAX_BREAK / 1000}s are shortened to ${MAX_BREAK / 1000}s`);
+      return MAX_BREAK;
+    }
+    return duration;
+  }
+
+  const level = strength ?? 'medium';
+  if (!(level in BREAK_STRENGTHS)) {
+    throw new SsmlError(`Invalid break strength "${level}"`, element.position);
+  }
+  return BREAK_STRENGTHS[level];
+}
+
+function applyProsody(prosody: SsmlProsody, element: SsmlElement, state: LoweringState): SsmlProsody {
+  const { rate, pitch, volume } = element.attributes;
+  const change = { ...NEUTRAL };
+
+  if (rate !== undefined) {
+    change.rate = parseScale(rate, RATE_KEYWORDS) ?? invalidProsody('rate', rate, element);
+  }
+
+  if (pitch !== undefined) {
+    if (/hz$/i.test(pitch.trim())) {
+      state.warnings.add('Pitch in Hz is not supported; use a percentage, semitones (st) or a keyword');
+    } else {
+      const semitones = pitch.trim().match(/^([+-]?\d+(?:\.\d+)?)st$/);
+      change.pitch = semitones
+        ? Math.pow(2, Number(semitones[1]) / 12)
+        : parseScale(pitch, PITCH_KEYWORDS) ?? invalidProsody('pitch', pitch, element);
+    }
+  }
+
+  if (volume !== undefined) {
+    const decibels = volume.trim().match(/^([+-]?\d+(?:\.\d+)?)dB$/);
+    change.volume = decibels
+      ? Math.pow(10, Number(decibels[1]) / 20)
+      : parseScale(volume, VOLUME_KEYWORDS) ?? invalidProsody('volume', volume, element);
+  }
+
+  return combine(prosody, change);
+}
+
+/**
+ * Parse a keyword, a percentage ("150%"), a relative change ("+20%", "-10%")
+ * or a plain multiplier ("1.5")
+ */
+function parseScale(value: string, keywords: Record<string, number>): number | null {
+  const trimmed = value.trim();
+  if (trimmed in keywords) {
+    return keywords[trimmed];
+  }
+
+  const match = trimmed.match(/^([+-])?(\d+(?:\.\d+)?|\.\d+)(%)?$/);
+  if (!match) return null;
+
+  const amount = Number(match[2]);
+  if (match[1]) {
+    const delta = match[3] ? amount / 100 : amount;
+    return Math.max(0, 1 + (match[1] === '-' ? -delta : delta));
+  }
+  return match[3] ? amount / 100 : amount;
+}
+
+function invalidProsody(attribute: string, value: string, element: SsmlElement): never {
+  throw new SsmlError(`Invalid prosody ${attribute} "${value}"`, element.position);
+}
+
+/**
+ * Spoken form of a <say-as> element
+ */
+function sayAs(element: SsmlElement, state: LoweringState): string {
+  const interpretAs = element.attributes['interpret-as'];
+  if (!interpretAs) {
+    throw new SsmlError('<say-as> requires an interpret-as attribute', element.position);
+  }
+
+  const content = textContent(element).trim();
+
+  switch (interpretAs) {
+    case 'characters':
+    case 'spell-out':
+    case 'verbatim':
+      return Array.from(content.replace(/\s+/g, '')).join(' ');
+
+    case 'digits':
+    case 'telephone':
+      return content
+        .replace(/\d+/g, digits => digits.split('').join(' '))
+        .replace(/\s*[-.()]+\s*/g, ', ')
+        .replace(/^, |, $/g, '');
+
+    case 'ordinal':
+      return /^\d+$/.test(content) ? ordinal(Number(content)) : content;
+
+    case 'date': {
+      const spoken = formatDate(content, element.attributes.format, state);
+      if (spoken === null) {
+        state.warnings.add(`Could not read "${content}" as a date; it is spoken as written`);
+        return content;
+      }
+      return spoken;
+    }
+
+    case 'cardinal':
+    case 'number':
+    case 'time':
+    case 'currency':
+    case 'unit':
+    case 'address':
+      return content;
+
+    default:
+      state.warnings.add(`<say-as interpret-as="${interpretAs}"> is not supported; the text is spoken as written`);
+      return content;
+  }
+}
+
+/**
+ * Spell out a numeric date such as 2024-03-05 (format ymd) as "March 5th, 2024"
+ */
+function formatDate(value: string, format: string | undefined, state: LoweringState): string | null {
+  let order = format ?? (/^\d{4}/.test(value) ? 'ymd' : 'mdy');
+  if (!DATE_FORMATS.includes(order)) {
+    state.warnings.add(`Unknown date format "${order}"; using mdy`);
+    order = 'mdy';
+  }
+
+  const parts = value.split(/[-/.\s]+/);
+  if (parts.length !== order.length || !parts.every(part => /^\d+$/.test(part))) {
+    return null;
+  }
+
+  const fields: Record<string, number> = {};
+  order.split('').forEach((field, index) => {
+    fields[field] = Number(parts[index]);
+  });
+
+  const { y: year, m: month, d: day } = fields;
+  if ((month !== undefined && (month < 1 || month > 12)) || (day !== undefined && (day < 1 || day > 31))) {
+    return null;
+  }
+
+  const monthName = month !== undefined ? MONTHS[month - 1] : '';
+  const dayPart = monthName && day !== undefined
+    ? `${monthName} ${ordinal(day)}`
+    : monthName || (day !== undefined ? `the ${ordinal(day)}` : '');
+
+  return [dayPart, year !== undefined ? String(year) : ''].filter(Boolean).join(', ');
+}
+
+function ordinal(value: number): string {
+  const lastTwo = value % 100;
+  const suffix = lastTwo >= 11 && lastTwo <= 13
+    ? 'th'
+    : ['th', 'st', 'nd', 'rd'][value % 10] ?? 'th';
+  return `${value}${suffix}`;
+}
+
+export function textContent(element: SsmlElement): string {
+  return element.children
+    .map(child => (typeof child === 'string' ? child : textContent(child)))
+    .join('');
+}
+
+function combine(a: SsmlProsody, b: SsmlProsody): SsmlProsody {
+  return { rate: a.rate * b.rate, pitch: a.pitch * b.pitch, volume: a.volume * b.volume };
+}
+
+function sameProsody(a: SsmlProsody, b: SsmlProsody): boolean {
+  return a.rate === b.rate && a.pitch === b.pitch && a.volume === b.volume;
+}
@@ -0,0 +1,146 @@
+/**
+ * Sentence-aware text chunking for speech synthesis
+ * Keeps each utterance short enough that browsers don't cut it off
+ */
+
+export interface TextChunk {
+  text: string;
+  start: number;  // character offset in the source text
+  end: number;    // exclusive
+}
+
+export interface ChunkOptions {
+  maxLength?: number;   // characters per chunk
+}
+
+const DEFAULT_MAX_LENGTH = 200;
+
+// Lower-cased, without the trailing period
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'etc', 'inc', 'ltd', 'co', 'corp',
+  'no', 'vol', 'fig', 'approx', 'dept', 'est', 'min', 'max', 'gen', 'gov', 'sen', 'rep', 'rev',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+  'e.g', 'i.e', 'a.m', 'p.m', 'u.s', 'u.k', 'ph.d',
+]);
+
+const TERMINATORS = '.!?…。！？';
+const CJK_TERMINATORS = '。！？';
+const CLOSERS = '"\'”’)]}»」』';
+
+/**
+ * Split text into sentences, keeping character offsets
+ */
+export function splitSentences(text: string): TextChunk[] {
+  const sentences: TextChunk[] = [];
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (!TERMINATORS.includes(char)) continue;
+
+    // Swallow runs like "?!" or "..." and trailing quotes/brackets
+    let end = i + 1;
+    while (end < text.length && TERMINATORS.includes(text[end])) end++;
+    while (end < text.length && CLOSERS.includes(text[end])) end++;
+
+    const next = text[end];
+    const atBoundary = end >= text.length || /\s/.test(next) || CJK_TERMINATORS.includes(char);
+
+    if (!atBoundary || (char === '.' && !isSentencePeriod(text, i, end))) {
+      i = end - 1;
+      continue;
+    }
+
+    pushTrimmed(sentences, text, start, end);
+    start = end;
+    i = end - 1;
+  }
+
+  pushTrimmed(sentences, text, start, text.length);
+  return sentences;
+}
+
+/**
+ * Split text into speakable chunks of whole sentences, no longer than maxLength
+ * where possible; long sentences are broken at clause punctuation, then at spaces
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const { maxLength = DEFAULT_MAX_LENGTH } = options;
+  const chunks: TextChunk[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    if (sentence.text.length <= maxLength) {
+      chunks.push(sentence);
+    } else {
+      chunks.push(...splitLongSentence(text, sentence, maxLength));
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Decide whether a period at `index` ends a sentence
+ */
+function isSentencePeriod(text: string, index: number, end: number): boolean {
+  // Ellipsis or more than one terminator: treat as an ending
+  if (end - index > 1 && text.slice(index, end).replace(/[^.!?…]/g, '').length > 1) {
+    return true;
+  }
+
+  // Word right before the period, including inner periods ("e.g", "U.S")
+  const before = text.slice(0, index).match(/([\p{L}.]+)$/u);
+  const word = before ? before[1].toLowerCase() : '';
+
+  if (ABBREVIATIONS.has(word)) {
+    return false;
+  }
+
+  // Single-letter initials such as "J. K. Rowling"
+  if (/^\p{Lu}$/u.test(before ? before[1] : '')) {
+    return false;
+  }
+
+  // Next sentence starting in lower case is usually a false break ("approx. five")
+  const following = text.slice(end).match(/^\s+(\S)/);
+  if (following && /\p{Ll}/u.test(following[1])) {
+    return false;
+  }
+
+  return true;
+}
+
+function splitLongSentence(text: string, sentence: TextChunk, maxLength: number): TextChunk[] {
+  const pieces: TextChunk[] = [];
+  let start = sentence.start;
+
+  while (sentence.end - start > maxLength) {
+    const window = text.slice(start, start + maxLength);
+
+    // Prefer the last clause break, then the last space, then a hard cut
+    let cut = Math.max(
+      window.lastIndexOf(', '),
+      window.lastIndexOf('; '),
+      window.lastIndexOf(': '),
+      window.lastIndexOf('，'),
+      window.lastIndexOf('、')
+    );
+    cut = cut > maxLength / 3 ? cut + 1 : window.lastIndexOf(' ');
+    if (cut <= 0) cut = maxLength;
+
+    pushTrimmed(pieces, text, start, start + cut);
+    start += cut;
+  }
+
+  pushTrimmed(pieces, text, start, sentence.end);
+  return pieces;
+}
+
+function pushTrimmed(chunks: TextChunk[], text: string, start: number, end: number): void {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+
+  if (end > start) {
+    chunks.push({ text: text.slice(start, end), start, end });
+  }
+}
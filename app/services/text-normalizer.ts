@@ -0,0 +1,410 @@
+/**
+ * Locale-aware text normalization for TTS
+ * Speech engines read numbers, dates, prices, version strings, addresses and
+ * abbreviations inconsistently ("10/12/2026" is a fraction to some voices).
+ * Each rule rewrites them into words for the speaking locale before
+ * synthesis: dates and amounts are spelled by Intl in the locale's own
+ * order and words, the rest by per-language word lists. Rules can be turned
+ * off one by one. Client-safe
+ */
+
+import { primaryLanguage } from './voices';
+import { Replacement, rewriteText, RewrittenText } from './text-rewrite';
+
+export interface NormalizeOptions {
+  numbers: boolean;
+  dates: boolean;
+  currency: boolean;
+  versions: boolean;
+  urls: boolean;
+  abbreviations: boolean;
+}
+
+export type NormalizeRule = keyof NormalizeOptions;
+
+export const DEFAULT_NORMALIZE_OPTIONS: NormalizeOptions = {
+  numbers: true,
+  dates: true,
+  currency: true,
+  versions: true,
+  urls: true,
+  abbreviations: true,
+};
+
+export const NORMALIZE_RULE_LABELS: Record<NormalizeRule, string> = {
+  urls: 'Web and email addresses',
+  dates: 'Dates',
+  currency: 'Currencies',
+  versions: 'Version numbers',
+  numbers: 'Percentages, signs and ranges',
+  abbreviations: 'Abbreviations',
+};
+
+/**
+ * Words spoken for symbols and abbreviations in one language
+ */
+interface SpokenWords {
+  dot: string;
+  slash: string;
+  at: string;
+  dash: string;
+  underscore: string;
+  version: string;    // "v2.1" -> "version 2 point 1"
+  point: string;
+  to: string;         // "10–12" -> "10 to 12"
+  minus: string;
+  abbreviations: Record<string, string>;   // as written (case-sensitive) -> spoken
+}
+
+const SPOKEN_WORDS: Record<string, SpokenWords> = {
+  en: {
+    dot: 'dot', slash: 'slash', at: 'at', dash: 'dash', underscore: 'underscore',
+    version: 'version', point: 'point', to: 'to', minus: 'minus',
+    abbreviations: {
+      'Dr.': 'Doctor', 'Mr.': 'Mister', 'Mrs.': 'Missus', 'Prof.': 'Professor', 'Jr.': 'Junior', 'Sr.': 'Senior',
+      'etc.': 'et cetera', 'e.g.': 'for example', 'i.e.': 'that is', 'vs.': 'versus', 'approx.': 'approximately',
+      'Inc.': 'Incorporated', 'Ltd.': 'Limited', 'Corp.': 'Corporation', 'Dept.': 'Department',
+      'Ave.': 'Avenue', 'Blvd.': 'Boulevard', 'Mt.': 'Mount',
+      'Jan.': 'January', 'Feb.': 'February', 'Aug.': 'August', 'Sept.': 'September', 'Oct.': 'October',
+      'Nov.': 'November', 'Dec.': 'December',
+    },
+  },
+  es: {
+    dot: 'punto', slash: 'barra', at: 'arroba', dash: 'guion', underscore: 'guion bajo',
+    version: 'versión', point: 'punto', to: 'a', minus: 'menos',
+    abbreviations: {
+      'Sr.': 'señor', 'Sra.': 'señora', 'Srta.': 'señorita', 'Dr.': 'doctor', 'Dra.': 'doctora',
+      'Ud.': 'usted', 'Uds.': 'ustedes', 'etc.': 'etcétera', 'p. ej.': 'por ejemplo',
+      'aprox.': 'aproximadamente', 'pág.': 'página', 'núm.': 'número', 'EE. UU.': 'Estados Unidos',
+    },
+  },
+  fr: {
+    dot: 'point', slash: 'slash', at: 'arobase', dash: 'tiret', underscore: 'tiret bas',
+    version: 'version', point: 'point', to: 'à', minus: 'moins',
+    abbreviations: {
+      'M.': 'monsieur', 'MM.': 'messieurs', 'Mme': 'madame', 'Mmes': 'mesdames', 'Mlle': 'mademoiselle',
+      'Dr': 'docteur', 'etc.': 'et cetera', 'p. ex.': 'par exemple', 'c.-à-d.': "c'est-à-dire",
+      'env.': 'environ', 'av.': 'avenue',
+    },
+  },
+  de: {
+    dot: 'Punkt', slash: 'Schrägstrich', at: 'at', dash: 'Bindestrich', underscore: 'Unterstrich',
+    version: 'Version', point: 'Punkt', to: 'bis', minus: 'minus',
+    abbreviations: {
+      'z. B.': 'zum Beispiel', 'd. h.': 'das heißt', 'u. a.': 'unter anderem', 'usw.': 'und so weiter',
+      'bzw.': 'beziehungsweise', 'ca.': 'circa', 'evtl.': 'eventuell', 'ggf.': 'gegebenenfalls',
+      'inkl.': 'inklusive', 'Dr.': 'Doktor', 'Prof.': 'Professor', 'Nr.': 'Nummer', 'Str.': 'Straße',
+    },
+  },
+  it: {
+    dot: 'punto', slash: 'slash', at: 'chiocciola', dash: 'trattino', underscore: 'trattino basso',
+    version: 'versione', point: 'punto', to: 'a', minus: 'meno',
+    abbreviations: {
+      'Sig.': 'signor', 'Sig.ra': 'signora', 'Dott.': 'dottore', 'Dott.ssa': 'dottoressa',
+      'ecc.': 'eccetera', 'ad es.': 'ad esempio', 'pag.': 'pagina',
+    },
+  },
+  pt: {
+    dot: 'ponto', slash: 'barra', at: 'arroba', dash: 'hífen', underscore: 'sublinhado',
+    version: 'versão', point: 'ponto', to: 'a', minus: 'menos',
+    abbreviations: {
+      'Sr.': 'senhor', 'Sra.': 'senhora', 'Dr.': 'doutor', 'Dra.': 'doutora', 'etc.': 'et cetera',
+      'p. ex.': 'por exemplo', 'pág.': 'página', 'aprox.': 'aproximadamente',
+    },
+  },
+  ru: {
+    dot: 'точка', slash: 'слэш', at: 'собака', dash: 'дефис', underscore: 'подчёркивание',
+    version: 'версия', point: 'точка', to: 'до', minus: 'минус',
+    abbreviations: {
+      'т. е.': 'то есть', 'т. д.': 'так далее', 'т. п.': 'тому подобное', 'др.': 'другие',
+    },
+  },
+};
+
+// Addresses and versions are usually read with English words elsewhere
+const FALLBACK_WORDS: SpokenWords = { ...SPOKEN_WORDS.en, abbreviations: {} };
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR', '₩': 'KRW', '₽': 'RUB',
+};
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR', 'KRW', 'RUB', 'CHF', 'CAD', 'AUD'];
+
+const MAGNITUDES: Record<string, number> = { k: 1e3, K: 1e3, M: 1e6, mn: 1e6, B: 1e9, bn: 1e9 };
+
+// Written before the month in short dates ("10/12/2026" is October 12th)
+const MONTH_FIRST_REGIONS = ['US', 'PH'];
+
+const AMOUNT = String.raw`\d+(?:[.,]\d+)*`;
+// Amounts written before their currency may group thousands with spaces ("1 234,50 €")
+const SPACED_AMOUNT = String.raw`\d{1,3}(?:[ \u00a0\u202f]\d{3})+(?:,\d+)?|${AMOUNT}`;
+const CURRENCY = `[${Object.keys(CURRENCY_SYMBOLS).join('')}]|${CURRENCY_CODES.join('|')}`;
+const MAGNITUDE = Object.keys(MAGNITUDES).join('|');
+
+const URL_PATTERN = /(?:\b(?:https?:\/\/|www\.)[^\s<>"'()]+|\b[\w.+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+)/gu;
+const DATE_PATTERN = /(?<![\p{L}\p{N}.,/-])(\d{1,4})([/.-])(\d{1,2})\2(\d{1,4})(?![\p{L}\p{N}]|[/.-]\d)/gu;
+// Scripts without spaces write prices straight after words ("価格は¥5000")
+const CURRENCY_BEFORE = new RegExp(
+  `(?<![A-Za-z\\d])(${CURRENCY})\\s?(${AMOUNT})(?:\\s?(${MAGNITUDE})(?![\\p{L}\\p{N}]))?`, 'gu'
+);
+const CURRENCY_AFTER = new RegExp(
+  `(?<![\\p{L}\\p{N}.,])(${SPACED_AMOUNT})\\s?(?:(${MAGNITUDE})\\s?)?(${CURRENCY})(?![\\p{L}\\p{N}])`, 'gu'
+);
+const VERSION_PATTERN = /(?<![\p{L}\p{N}.])([vV])?(\d+(?:\.\d+){1,3})(?![\p{L}\p{N}]|\.\d)/gu;
+const PERCENT_PATTERN = new RegExp(`(?<![\\p{L}\\p{N}.,])([-−]?)(${AMOUNT})\\s?%`, 'gu');
+const MAGNITUDE_PATTERN = new RegExp(`(?<![\\p{L}\\p{N}.,])(${AMOUNT})(${MAGNITUDE})(?![\\p{L}\\p{N}])`, 'gu');
+const SIGN_PATTERN = /(?<=^|[\s(])[-−](?=\d)/gu;
+const RANGE_PATTERN = /(?<=\d)\s?[–—]\s?(?=\d)/gu;
+const YEAR_RANGE_PATTERN = /(?<![\p{L}\p{N}.,-])((?:1\d|20)\d\d)-((?:1\d|20)\d\d)(?![\p{L}\p{N}]|-\d)/gu;
+
+// Earlier rules win where matches overlap ("$3.5M" is a price before it is a number)
+const RULE_ORDER: NormalizeRule[] = ['urls', 'dates', 'currency', 'versions', 'numbers', 'abbreviations'];
+
+const RULES: Record<NormalizeRule, (text: string, locale: string, words: SpokenWords) => Replacement[]> = {
+  urls: normalizeUrls,
+  dates: normalizeDates,
+  currency: normalizeCurrency,
+  versions: normalizeVersions,
+  numbers: normalizeNumbers,
+  abbreviations: normalizeAbbreviations,
+};
+
+/**
+ * Rewrite text into the words a voice for `language` should speak; offsets
+ * map back to the original for word highlighting
+ */
+export function normalizeText(text: string, language: string, options: NormalizeOptions): RewrittenText {
+  const locale = supportedLocale(language);
+  const words = SPOKEN_WORDS[primaryLanguage(locale)] ?? FALLBACK_WORDS;
+
+  const accepted: Replacement[] = [];
+  for (const rule of RULE_ORDER) {
+    if (!options[rule]) continue;
+    for (const replacement of RULES[rule](text, locale, words)) {
+      if (!accepted.some(other => replacement.start < other.end && other.start < replacement.end)) {
+        accepted.push(replacement);
+      }
+    }
+  }
+
+  return rewriteText(text, accepted.sort((a, b) => a.start - b.start));
+}
+
+/**
+ * Check stored options; rules default to on
+ */
+export function validateNormalizeOptions(raw: unknown): NormalizeOptions {
+  const stored = typeof raw === 'object' && raw !== null ? (raw as Partial<Record<NormalizeRule, unknown>>) : {};
+  return {
+    numbers: stored.numbers !== false,
+    dates: stored.dates !== false,
+    currency: stored.currency !== false,
+    versions: stored.versions !== false,
+    urls: stored.urls !== false,
+    abbreviations: stored.abbreviations !== false,
+  };
+}
+
+// Rules
+
+// "https://www.example.com/docs/" -> "www dot example dot com slash docs"; queries are left out
+function normalizeUrls(text: string, _locale: string, words: SpokenWords): Replacement[] {
+  const separators: Record<string, string> = { '.': words.dot, '/': words.slash, '@': words.at, '-': words.dash, '_': words.underscore };
+
+  return replaceAll(text, URL_PATTERN, match => {
+    const address = match[0].replace(/[.,;:!?]+$/, '');
+    const spoken = address
+      .replace(/^https?:\/\//, '')
+      .replace(/[?#].*$/, '')
+      .replace(/\/+$/, '')
+      .split(/([./@_-])/)
+      .map(part => separators[part] ?? part.replace(/[^\p{L}\p{N}]+/gu, ' ').trim())
+      .filter(Boolean)
+      .join(' ');
+    return { length: address.length, text: spoken };
+  });
+}
+
+// "10/12/2026" -> "October 12, 2026" (en-US) or "10 December 2026" (en-GB)
+function normalizeDates(text: string, locale: string): Replacement[] {
+  const format = new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeZone: 'UTC' });
+  const region = new Intl.Locale(locale).maximize().region ?? '';
+  const monthFirst = primaryLanguage(locale) === 'en' && MONTH_FIRST_REGIONS.includes(region);
+
+  return replaceAll(text, DATE_PATTERN, match => {
+    const [, first, separator, second, third] = match;
+    let date: Date | null;
+
+    if (first.length === 4) {
+      date = toDate(Number(first), Number(second), Number(third));
+    } else {
+      // Dotted dates need a full year, so "1.2.10" stays a version number
+      if (third.length === 3 || (third.length !== 4 && separator === '.')) return null;
+      const year = third.length === 2 ? twoDigitYear(Number(third)) : Number(third);
+      const [month, day] = monthFirst ? [first, second] : [second, first];
+      // Dates that only make sense in the other order ("25/12" in the US) are read that way
+      date = toDate(year, Number(month), Number(day)) ?? toDate(year, Number(day), Number(month));
+    }
+
+    return date && { length: match[0].length, text: format.format(date) };
+  });
+}
+
+// "$3.5M" -> "3.5 million US dollars", "12,50 €" -> "12,50 euros"
+function normalizeCurrency(text: string, locale: string): Replacement[] {
+  const decimal = decimalSeparator(locale);
+  const speak = (match: RegExpMatchArray, symbol: string, amount: string, magnitude?: string) => {
+    const value = parseAmount(amount, decimal);
+    const currency = CURRENCY_SYMBOLS[symbol] === 'JPY' && primaryLanguage(locale) === 'zh'
+      ? 'CNY'
+      : CURRENCY_SYMBOLS[symbol] ?? symbol;
+    if (value === null) return null;
+
+    const total = value * (magnitude ? MAGNITUDES[magnitude] : 1);
+    const fractionDigits = magnitude || Number.isInteger(total) ? 0 : 2;
+    const spoken = new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      currencyDisplay: 'name',
+      ...(magnitude ? { notation: 'compact', compactDisplay: 'long' } as const : {}),
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: 2,
+    }).format(total);
+    return { length: match[0].length, text: spoken };
+  };
+
+  return [
+    ...replaceAll(text, CURRENCY_BEFORE, match => speak(match, match[1], match[2], match[3])),
+    ...replaceAll(text, CURRENCY_AFTER, match => speak(match, match[3], match[1], match[2])),
+  ];
+}
+
+// "v2.1.0" -> "version 2 point 1 point 0"; bare numbers need three parts ("2.1.0")
+function normalizeVersions(text: string, _locale: string, words: SpokenWords): Replacement[] {
+  return replaceAll(text, VERSION_PATTERN, match => {
+    const [, prefix, number] = match;
+    const parts = number.split('.');
+    // Without a "v", thousands groupings ("1.234.567") and decimals are not versions
+    if (!prefix && (parts.length < 3 || parts.slice(1).every(part => part.length === 3))) return null;
+
+    const spoken = parts.join(` ${words.point} `);
+    return { length: match[0].length, text: prefix ? `${words.version} ${spoken}` : spoken };
+  });
+}
+
+// "12.5%" -> "12.5 percent", "3.5M" -> "3.5 million", "-4" -> "minus 4", "10–12" -> "10 to 12"
+function normalizeNumbers(text: string, locale: string, words: SpokenWords): Replacement[] {
+  const decimal = decimalSeparator(locale);
+  const percent = new Intl.NumberFormat(locale, { style: 'unit', unit: 'percent', unitDisplay: 'long', maximumFractionDigits: 2 });
+  const compact = new Intl.NumberFormat(locale, { notation: 'compact', compactDisplay: 'long', maximumFractionDigits: 2 });
+
+  return [
+    ...replaceAll(text, PERCENT_PATTERN, match => {
+      const value = parseAmount(match[2], decimal);
+      if (value === null) return null;
+      const spoken = percent.format(value);
+      return { length: match[0].length, text: match[1] ? `${words.minus} ${spoken}` : spoken };
+    }),
+    ...replaceAll(text, MAGNITUDE_PATTERN, match => {
+      const value = parseAmount(match[1], decimal);
+      return value === null ? null : { length: match[0].length, text: compact.format(value * MAGNITUDES[match[2]]) };
+    }),
+    ...replaceAll(text, SIGN_PATTERN, match => ({ length: match[0].length, text: `${words.minus} ` })),
+    ...replaceAll(text, RANGE_PATTERN, match => ({ length: match[0].length, text: ` ${words.to} ` })),
+    ...replaceAll(text, YEAR_RANGE_PATTERN, match =>
+      Number(match[2]) > Number(match[1])
+        ? { length: match[0].length, text: `${match[1]} ${words.to} ${match[2]}` }
+        : null
+    ),
+  ];
+}
+
+// "e.g." -> "for example"; an abbreviation ending the text keeps its full stop,
+// one starting a sentence its capital ("M. Dupont" -> "Monsieur Dupont")
+function normalizeAbbreviations(text: string, _locale: string, words: SpokenWords): Replacement[] {
+  const abbreviations = Object.keys(words.abbreviations).sort((a, b) => b.length - a.length);
+  if (abbreviations.length === 0) return [];
+
+  const alternatives = abbreviations.map(abbreviation =>
+    abbreviation.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s?')
+  );
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}.])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'gu');
+  const spaced = new Map(abbreviations.map(abbreviation => [abbreviation.replace(/ /g, ''), abbreviation]));
+
+  return replaceAll(text, pattern, match => {
+    const abbreviation = spaced.get(match[0].replace(/\s/g, '')) ?? match[0];
+    const spoken = words.abbreviations[abbreviation];
+    if (!spoken) return null;
+
+    const before = text.slice(0, match.index);
+    const starting = /^\p{Lu}/u.test(abbreviation) && (!before.trim() || /[.!?]\s+$/.test(before));
+    const ending = abbreviation.endsWith('.') && !text.slice(match.index! + match[0].length).trim();
+    const capitalized = starting ? spoken.charAt(0).toUpperCase() + spoken.slice(1) : spoken;
+    return { length: match[0].length, text: ending ? `${capitalized}.` : capitalized };
+  });
+}
+
+// Helpers
+
+function replaceAll(
+  text: string,
+  pattern: RegExp,
+  replace: (match: RegExpMatchArray) => { length: number; text: string } | null
+): Replacement[] {
+  const replacements: Replacement[] = [];
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const replacement = replace(match);
+    if (replacement) {
+      replacements.push({ start: match.index!, end: match.index! + replacement.length, text: replacement.text });
+    }
+  }
+  return replacements;
+}
+
+/**
+ * Read a written amount: with both separators the last one is the decimal
+ * point; a lone separator followed by three digits groups thousands unless
+ * it is the locale's decimal separator ("1,000" in English, "1,000" = 1 in German)
+ */
+function parseAmount(amount: string, decimal: string): number | null {
+  const digits = amount.replace(/[ \u00a0\u202f]/g, '');
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  let point = -1;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    point = Math.max(lastDot, lastComma);
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const parts = digits.split(separator);
+    const grouped = parts.length > 2 || (parts[1].length === 3 && separator !== decimal);
+    point = grouped ? -1 : digits.lastIndexOf(separator);
+  }
+
+  const whole = (point < 0 ? digits : digits.slice(0, point)).replace(/[.,]/g, '');
+  const fraction = point < 0 ? '0' : digits.slice(point + 1);
+  const value = Number(`${whole}.${fraction}`);
+  return Number.isFinite(value) ? value : null;
+}
+
+function decimalSeparator(locale: string): string {
+  return new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal')?.value ?? '.';
+}
+
+function toDate(year: number, month: number, day: number): Date | null {
+  if (month < 1 || month > 12 || day < 1) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCDate() === day ? date : null;
+}
+
+// "26" -> 2026, "87" -> 1987
+function twoDigitYear(year: number): number {
+  return year < 50 ? 2000 + year : 1900 + year;
+}
+
+function supportedLocale(language: string): string {
+  try {
+    return Intl.getCanonicalLocales(language)[0] ?? 'en-US';
+  } catch {
+    return 'en-US';
+  }
+}
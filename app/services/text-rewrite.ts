@@ -0,0 +1,62 @@
+/**
+ * Text rewriting with offset mapping
+ * Passes that change what is spoken (lexicon respellings, normalization)
+ * replace spans of the text; word boundaries reported for the rewritten text
+ * are mapped back to offsets in the original for highlighting. Client-safe
+ */
+
+export interface Replacement {
+  start: number;
+  end: number;        // exclusive
+  text: string;       // spoken instead of the span
+}
+
+/**
+ * Text with replacements applied
+ */
+export interface RewrittenText {
+  text: string;
+  toSource: (index: number) => number;  // offset in `text` -> offset in the original
+}
+
+/**
+ * Apply non-overlapping replacements, given in text order
+ */
+export function rewriteText(text: string, replacements: Replacement[]): RewrittenText {
+  if (replacements.length === 0) {
+    return { text, toSource: index => index };
+  }
+
+  // Each replacement, as spans in the rewritten and the original text
+  const spans: { from: number; to: number; sourceFrom: number; sourceTo: number }[] = [];
+  let rewritten = '';
+  let cursor = 0;
+
+  for (const replacement of replacements) {
+    rewritten += text.slice(cursor, replacement.start);
+    const from = rewritten.length;
+    rewritten += replacement.text;
+    spans.push({ from, to: rewritten.length, sourceFrom: replacement.start, sourceTo: replacement.end });
+    cursor = replacement.end;
+  }
+  rewritten += text.slice(cursor);
+
+  const toSource = (index: number) => {
+    let shift = 0;
+    for (const span of spans) {
+      if (index < span.from) break;
+      if (index < span.to) return span.sourceFrom;
+      shift = span.sourceTo - span.to;
+    }
+    return index + shift;
+  };
+
+  return { text: rewritten, toSource };
+}
+
+/**
+ * A rewrite of already rewritten text, mapped to the first pass's source
+ */
+export function chainRewrites(first: RewrittenText, second: RewrittenText): RewrittenText {
+  return { text: second.text, toSource: index => first.toSource(second.toSource(index)) };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { formatCueTime, toSrt, toVtt } from './transcript-formats';
+import type { TranscriptSegment } from './transcript';
+
+function segment(text: string, start: number, end: number, isFinal = true): TranscriptSegment {
+  return { text, start, end, alternatives: [{ text }], isFinal };
+}
+
+describe('formatCueTime', () => {
+  it('uses a comma for SRT and a dot for VTT', () => {
+    expect(formatCueTime(1.5, ',')).toBe('00:00:01,500');
+    expect(formatCueTime(1.5, '.')).toBe('00:00:01.500');
+  });
+
+  it('rolls 59:59.999 over to the next hour', () => {
+    expect(formatCueTime(3599.999, '.')).toBe('00:59:59.999');
+    expect(formatCueTime(3599.9996, '.')).toBe('01:00:00.000');
+    expect(formatCueTime(3600, ',')).toBe('01:00:00,000');
+  });
+
+  it('keeps counting hours past 99', () => {
+    expect(formatCueTime(100 * 3600 + 61.25, ',')).toBe('100:01:01,250');
+  });
+
+  it('clamps negative times to zero', () => {
+    expect(formatCueTime(-2, ',')).toBe('00:00:00,000');
+  });
+});
+
+describe('toSrt', () => {
+  it('numbers cues and separates milliseconds with a comma', () => {
+    expect(toSrt([segment('Hello', 0, 1.25), segment('World', 1.5, 2)])).toBe(
+      '1\n00:00:00,000 --> 00:00:01,250\nHello\n\n' +
+      '2\n00:00:01,500 --> 00:00:02,000\nWorld\n'
+    );
+  });
+
+  it('gives zero-length segments the minimum cue duration', () => {
+    expect(toSrt([segment('Hi', 5, 5)])).toBe('1\n00:00:05,000 --> 00:00:06,000\nHi\n');
+  });
+
+  it('shortens a zero-length cue so it does not overlap the next one', () => {
+    expect(toSrt([segment('One', 2, 2), segment('Two', 2.4, 3)])).toContain('00:00:02,000 --> 00:00:02,400\nOne');
+  });
+
+  it('skips interim and empty segments', () => {
+    expect(toSrt([segment('draft', 0, 1, false), segment('  ', 1, 2)])).toBe('');
+  });
+});
+
+describe('toVtt', () => {
+  it('starts with the WEBVTT header and separates milliseconds with a dot', () => {
+    expect(toVtt([segment('Hello', 0, 1.25)])).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:01.250\nHello\n');
+  });
+
+  it('gives zero-length segments the minimum cue duration across the hour', () => {
+    expect(toVtt([segment('Late', 3599.5, 3599.5)])).toContain('00:59:59.500 --> 01:00:00.500');
+  });
+
+  it('escapes markup characters', () => {
+    expect(toVtt([segment('a < b & c', 0, 1)])).toContain('a &lt; b &amp; c');
+  });
+});
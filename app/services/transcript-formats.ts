@@ -0,0 +1,184 @@
+/**
+ * Transcript export formats: SubRip (.srt), WebVTT (.vtt), plain text and JSON
+ * Pure functions so other tools can import them without the UI
+ */
+
+import { fileNameFromText } from './filename';
+import { segmentsToText, TranscriptSegment } from './transcript';
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt' | 'json';
+
+export const TRANSCRIPT_FORMATS: Record<TranscriptFormat, { label: string; contentType: string; extension: string }> = {
+  srt: { label: 'SubRip (.srt)', contentType: 'application/x-subrip', extension: 'srt' },
+  vtt: { label: 'WebVTT (.vtt)', contentType: 'text/vtt', extension: 'vtt' },
+  txt: { label: 'Plain text (.txt)', contentType: 'text/plain', extension: 'txt' },
+  json: { label: 'JSON', contentType: 'application/json', extension: 'json' },
+};
+
+export const TRANSCRIPT_SCHEMA_VERSION = 1;
+
+// Zero-length segments get this much screen time (seconds), without overlapping the next cue
+const MIN_CUE_DURATION = 1;
+
+export interface TranscriptDocument {
+  version: number;
+  language?: string;
+  duration: number;               // seconds, end of the last segment
+  text: string;
+  segments: {
+    index: number;
+    start: number;                // seconds
+    end: number;                  // seconds
+    text: string;
+    confidence: number | null;    // 0 to 1, null when unknown
+    alternatives: { text: string; confidence: number | null }[];
+    words: { text: string; start: number; end: number; confidence: number | null }[];
+  }[];
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Serialize final segments to SubRip
+ */
+export function toSrt(segments: TranscriptSegment[]): string {
+  return toCues(segments)
+    .map((cue, index) =>
+      `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`
+    )
+    .join('\n');
+}
+
+/**
+ * Serialize final segments to WebVTT
+ */
+export function toVtt(segments: TranscriptSegment[]): string {
+  const cues = toCues(segments).map(cue =>
+    `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${escapeVtt(cue.text)}\n`
+  );
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+/**
+ * Serialize final segments to plain text, one segment per line
+ */
+export function toPlainText(segments: TranscriptSegment[]): string {
+  const text = segmentsToText(finalSegments(segments), '\n');
+  return text ? `${text}\n` : '';
+}
+
+/**
+ * Build the JSON transcript document (timings and confidence included)
+ */
+export function toTranscriptDocument(segments: TranscriptSegment[], language?: string): TranscriptDocument {
+  const finals = finalSegments(segments);
+
+  return {
+    version: TRANSCRIPT_SCHEMA_VERSION,
+    language,
+    duration: finals.reduce((max, segment) => Math.max(max, segment.end), 0),
+    text: segmentsToText(finals),
+    segments: finals.map((segment, index) => ({
+      index,
+      start: segment.start,
+      end: segment.end,
+      text: segment.text,
+      confidence: segment.confidence ?? null,
+      alternatives: segment.alternatives.map(alternative => ({
+        text: alternative.text,
+        confidence: alternative.confidence ?? null,
+      })),
+      words: (segment.words ?? []).map(word => ({
+        text: word.text,
+        start: word.start,
+        end: word.end,
+        confidence: word.confidence ?? null,
+      })),
+    })),
+  };
+}
+
+/**
+ * Serialize final segments to pretty-printed JSON
+ */
+export function toJson(segments: TranscriptSegment[], language?: string): string {
+  return JSON.stringify(toTranscriptDocument(segments, language), null, 2) + '\n';
+}
+
+/**
+ * Serialize segments to the given export format
+ */
+export function formatTranscript(segments: TranscriptSegment[], format: TranscriptFormat, language?: string): string {
+  switch (format) {
+    case 'srt':
+      return toSrt(segments);
+    case 'vtt':
+      return toVtt(segments);
+    case 'json':
+      return toJson(segments, language);
+    default:
+      return toPlainText(segments);
+  }
+}
+
+/**
+ * Build a download filename from the first words of the transcript
+ */
+export function transcriptFileName(segments: TranscriptSegment[], format: TranscriptFormat): string {
+  return fileNameFromText(segmentsToText(finalSegments(segments)), TRANSCRIPT_FORMATS[format].extension, 'transcript');
+}
+
+/**
+ * Format seconds as HH:MM:SS<separator>mmm (hours keep growing past 99)
+ */
+export function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(secs, 2)}${separator}${pad(ms, 3)}`;
+}
+
+function finalSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return segments.filter(segment => segment.isFinal && segment.text.trim());
+}
+
+/**
+ * Final segments as ordered cues with a positive duration
+ */
+function toCues(segments: TranscriptSegment[]): Cue[] {
+  const cues = finalSegments(segments)
+    .map(segment => ({
+      start: Math.max(0, segment.start),
+      end: Math.max(0, segment.end),
+      // Blank lines would end an SRT/VTT cue early
+      text: segment.text.trim().replace(/\n\s*\n/g, '\n'),
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  return cues.map((cue, index) => {
+    if (cue.end > cue.start) {
+      return cue;
+    }
+    const next = cues[index + 1];
+    const limit = next && next.start > cue.start ? next.start : Infinity;
+    return { ...cue, end: Math.min(cue.start + MIN_CUE_DURATION, limit) };
+  });
+}
+
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, '0');
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RESTORE_OPTIONS, restoreText } from './transcript-restore';
+
+const numbersOnly = { punctuation: false, casing: false, numbers: true };
+
+describe('restoreText numbers', () => {
+  it('writes spoken years without thousands grouping', () => {
+    expect(restoreText('two thousand twenty four was a good year', 'en-US', numbersOnly))
+      .toBe('2024 was a good year');
+    expect(restoreText('twenty twenty six', 'en-US', numbersOnly)).toBe('2026');
+    expect(restoreText('back in nineteen ninety', 'en-US', numbersOnly)).toBe('back in 1990');
+  });
+
+  it('groups amounts and counts between one and three thousand', () => {
+    expect(restoreText('we paid two thousand five hundred dollars', 'en-US', numbersOnly)).toBe('we paid $2,500');
+    expect(restoreText('we paid three thousand dollars', 'en-US', numbersOnly)).toBe('we paid $3,000');
+    expect(restoreText('it was two thousand twenty dollars', 'en-US', numbersOnly)).toBe('it was $2,020');
+    expect(restoreText('one thousand five hundred people came', 'en-US', numbersOnly)).toBe('1,500 people came');
+  });
+
+  it('groups larger numbers and keeps decimals', () => {
+    expect(restoreText('we paid one hundred five thousand three hundred dollars', 'en-US', numbersOnly))
+      .toBe('we paid $105,300');
+    expect(restoreText('pi is three point one four', 'en-US', numbersOnly)).toBe('pi is 3.14');
+  });
+
+  it('restores a full sentence', () => {
+    expect(restoreText('it costs twenty five dollars', 'en-US', DEFAULT_RESTORE_OPTIONS)).toBe('It costs $25.');
+  });
+});
@@ -0,0 +1,599 @@
+/**
+ * Offline punctuation, casing and number restoration for STT results
+ * Web Speech finals often arrive as unpunctuated lower-case runs. Each final
+ * result is treated as a sentence: per-language rules add commas and end
+ * punctuation, a small hand-weighted model decides whether it is a question,
+ * sentence starts are capitalized and spelled-out numbers become digits
+ * ("twenty five dollars" -> "$25"). Client-safe
+ */
+
+import { primaryLanguage } from './voices';
+
+export interface RestoreOptions {
+  punctuation: boolean;
+  casing: boolean;
+  numbers: boolean;
+}
+
+export type RestoreFeature = keyof RestoreOptions;
+
+export const DEFAULT_RESTORE_OPTIONS: RestoreOptions = { punctuation: true, casing: true, numbers: true };
+
+export const RESTORE_FEATURE_LABELS: Record<RestoreFeature, string> = {
+  punctuation: 'Punctuation',
+  casing: 'Capitalization',
+  numbers: 'Numbers',
+};
+
+/**
+ * Linear question classifier: a sentence is a question when the bias plus
+ * the weights of every matching phrase is above zero
+ */
+interface QuestionModel {
+  bias: number;
+  starts: Record<string, number>;     // first words
+  ends?: Record<string, number>;      // last words
+  endings?: Record<string, number>;   // suffixes of the last word (particles)
+}
+
+/**
+ * Spoken number words and the units written next to the digits
+ */
+interface NumberWords {
+  values: Record<string, number>;       // 0 to 99
+  multipliers: Record<string, number>;  // hundred, thousand, ...
+  joiner: string;                       // "one hundred and five"
+  point: string;                        // "three point five"
+  subunit: string[];                    // "... dollars and fifty cents"
+  prefixUnits: Record<string, string>;  // written before the number
+  suffixUnits: Record<string, string>;  // written after the number
+  groupSeparator: string;               // not used for numbers spoken as years ("twenty twenty four")
+  decimalSeparator: string;
+}
+
+interface RestoreRules {
+  terminator: string;
+  question: string;
+  questionOpener?: string;    // '¿' in Spanish
+  unspaced?: boolean;         // written without spaces between words
+  casing: boolean;            // the script has letter case
+  questions: QuestionModel;
+  capitalized?: string[];     // always capitalized
+  introWords?: string[];      // followed by a comma at the start of a sentence
+  commaBefore?: string[];     // preceded by a comma inside a sentence
+  numbers?: NumberWords;
+}
+
+const EN_NUMBERS: NumberWords = {
+  values: {
+    zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+    ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+    seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+    sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+  },
+  multipliers: { hundred: 100, thousand: 1e3, million: 1e6, billion: 1e9 },
+  joiner: 'and',
+  point: 'point',
+  subunit: ['cent', 'cents'],
+  prefixUnits: { dollar: '$', dollars: '$', euro: '€', euros: '€' },
+  suffixUnits: { percent: '%' },
+  groupSeparator: ',',
+  decimalSeparator: '.',
+};
+
+// Keyed by primary language subtag; covers getSupportedLanguages()
+const RESTORE_RULES: Record<string, RestoreRules> = {
+  en: {
+    terminator: '.',
+    question: '?',
+    casing: true,
+    questions: {
+      bias: -1,
+      starts: {
+        'what': 3, 'what a': -5, 'why': 3, 'how': 2.5, 'how about': 0, 'where': 3, 'when': 1, 'who': 2.5,
+        'whom': 3, 'whose': 2.5, 'which': 1.5, 'is': 2, 'are': 2, 'am': 2, 'was': 1.5, 'were': 1.5, 'do': 2,
+        'does': 3, 'did': 2.5, 'can': 2, 'could': 2, 'would': 2, 'will': 2, 'should': 2, 'shall': 2,
+        'may': 1, 'have': 1.5, 'has': 1.5, 'had': 1, "isn't": 2.5, "aren't": 2.5, "wasn't": 2.5,
+        "don't": 0.5, "doesn't": 2.5, "didn't": 2.5, "can't": 1.5, "won't": 1.5, "wouldn't": 2.5,
+        "couldn't": 2.5, "shouldn't": 2.5, "haven't": 2.5,
+      },
+      ends: { 'right': 1.5, 'or not': 2, "isn't it": 2, "don't you": 2, "aren't you": 2 },
+    },
+    // Not "may" and "march", which are more often not months
+    capitalized: [
+      'i', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'january',
+      'february', 'april', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+    ],
+    introWords: [
+      'however', 'actually', 'anyway', 'meanwhile', 'therefore', 'besides', 'finally', 'unfortunately',
+      'fortunately', 'honestly', 'basically', 'otherwise', 'of course', 'by the way', 'for example', 'in fact',
+    ],
+    commaBefore: ['but'],
+    numbers: EN_NUMBERS,
+  },
+  es: {
+    terminator: '.',
+    question: '?',
+    questionOpener: '¿',
+    casing: true,
+    questions: {
+      bias: -1,
+      starts: {
+        'qué': 3, 'cómo': 3, 'dónde': 3, 'adónde': 3, 'cuándo': 3, 'quién': 3, 'quiénes': 3, 'cuál': 3,
+        'cuáles': 3, 'cuánto': 3, 'cuánta': 3, 'cuántos': 3, 'cuántas': 3, 'por qué': 3,
+      },
+      ends: { 'verdad': 2 },
+    },
+    introWords: ['sin embargo', 'además', 'por ejemplo', 'por supuesto', 'de hecho', 'finalmente'],
+    commaBefore: ['pero'],
+  },
+  fr: {
+    terminator: '.',
+    question: '?',
+    casing: true,
+    questions: {
+      bias: -1,
+      starts: {
+        'pourquoi': 3, 'comment': 2.5, 'où': 3, 'quand': 1, 'qui': 2, 'quel': 3, 'quelle': 3, 'quels': 3,
+        'quelles': 3, 'combien': 3, 'est-ce que': 3, "qu'est-ce que": 3,
+      },
+      ends: { "n'est-ce pas": 3 },
+    },
+    introWords: ['cependant', 'pourtant', "d'abord", 'ensuite', 'enfin', 'par exemple', 'en fait', 'bien sûr'],
+    commaBefore: ['mais'],
+  },
+  de: {
+    terminator: '.',
+    question: '?',
+    casing: true,
+    questions: {
+      bias: -1,
+      starts: {
+        'warum': 3, 'wieso': 3, 'weshalb': 3, 'wie': 2, 'wo': 2.5, 'woher': 3, 'wohin': 3, 'wann': 2.5,
+        'wer': 3, 'was': 1.5, 'welche': 2, 'welcher': 2, 'welches': 2, 'ist': 2, 'sind': 2, 'bist': 2.5,
+        'hast': 2.5, 'hat': 2, 'habt': 2.5, 'kannst': 2.5, 'kann': 1.5, 'können': 2, 'willst': 2.5,
+        'möchtest': 2.5, 'soll': 2, 'sollen': 2, 'darf': 2, 'gibt': 1.5,
+      },
+      ends: { 'oder': 1.5, 'nicht wahr': 2 },
+    },
+    commaBefore: ['aber', 'sondern', 'dass', 'weil', 'obwohl', 'wenn', 'ob'],
+  },
+  it: {
+    terminator: '.',
+    question: '?',
+    casing: true,
+    questions: {
+      bias: -1,
+      starts: {
+        'perché': 1.5, 'come': 2, 'dove': 3, 'quando': 1, 'chi': 3, 'quale': 3, 'quali': 3, 'quanto': 3,
+        'quanti': 3, 'quante': 3, 'cosa': 2.5, 'che cosa': 3,
+      },
+      ends: { 'vero': 1.5 },
+    },
+    introWords: ['tuttavia', 'comunque', 'inoltre', 'per esempio', 'infatti'],
+    commaBefore: ['ma', 'però'],
+  },
+  pt: {
+    terminator: '.',
+    question: '?',
+    casing: true,
+    questions: {
+      bias: -1,
+      starts: {
+        'como': 2, 'onde': 3, 'quando': 1, 'quem': 3, 'qual': 3, 'quais': 3, 'quanto': 3, 'quantos': 3,
+        'quanta': 3, 'quantas': 3, 'o que': 3, 'por que': 3, 'por quê': 3, 'será que': 3,
+      },
+      ends: { 'né': 2 },
+    },
+    introWords: ['porém', 'entretanto', 'além disso', 'por exemplo', 'de fato', 'enfim'],
+    commaBefore: ['mas'],
+  },
+  ru: {
+    terminator: '.',
+    question: '?',
+    casing: true,
+    questions: {
+      bias: -1,
+      starts: {
+        'почему': 3, 'зачем': 3, 'как': 2, 'где': 3, 'куда': 3, 'откуда': 3, 'когда': 1, 'кто': 3,
+        'что': 1.5, 'какой': 3, 'какая': 3, 'какое': 3, 'какие': 3, 'сколько': 3, 'разве': 3,
+      },
+    },
+    introWords: ['однако', 'во-первых', 'кстати', 'например', 'конечно'],
+    commaBefore: ['но', 'потому что', 'чтобы', 'который', 'которая', 'которое', 'которые', 'если'],
+  },
+  ja: {
+    terminator: '。',
+    question: '？',
+    unspaced: true,
+    casing: false,
+    questions: {
+      bias: -1,
+      starts: { 'なぜ': 3, 'どうして': 3, '何': 2, 'どこ': 2.5, 'いつ': 2, '誰': 3 },
+      endings: { 'か': 2, 'ですか': 1, 'ますか': 1, 'でしょう': 1.5 },
+    },
+  },
+  ko: {
+    terminator: '.',
+    question: '?',
+    casing: false,
+    questions: {
+      bias: -1,
+      starts: { '왜': 3, '어떻게': 2.5, '어디': 2.5, '언제': 2, '누가': 3, '누구': 3, '무엇': 2.5, '뭐': 2, '몇': 2 },
+      endings: { '까': 3, '니': 2.5, '나요': 2.5, '가요': 2 },
+    },
+  },
+  zh: {
+    terminator: '。',
+    question: '？',
+    unspaced: true,
+    casing: false,
+    questions: {
+      bias: -1,
+      starts: {
+        '为什么': 3, '為什麼': 3, '怎么': 2, '怎麼': 2, '哪': 2.5, '谁': 3, '誰': 3, '什么': 2.5, '什麼': 2.5,
+        '是不是': 3, '有没有': 3, '有沒有': 3,
+      },
+      endings: { '吗': 3, '嗎': 3, '呢': 2, '么': 2, '麼': 2 },
+    },
+  },
+};
+
+const TERMINATORS = '.!?…。！？';
+const END_PUNCTUATION = /[.!?…。！？,;:、，；：]["'”’)\]}»」』]*$/;
+
+/**
+ * The features that can be restored for a language (none without rules)
+ */
+export function restoreFeatures(language: string): RestoreFeature[] {
+  const rules = RESTORE_RULES[primaryLanguage(language)];
+  if (!rules) return [];
+
+  const features: RestoreFeature[] = ['punctuation'];
+  if (rules.casing) features.push('casing');
+  if (rules.numbers) features.push('numbers');
+  return features;
+}
+
+/**
+ * The saved options for a language, or the defaults
+ */
+export function restoreOptionsFor(saved: Record<string, RestoreOptions>, language: string): RestoreOptions {
+  return saved[primaryLanguage(language)] ?? DEFAULT_RESTORE_OPTIONS;
+}
+
+/**
+ * Restore one final result; previous is the transcript text before it,
+ * which decides whether the result starts a sentence
+ */
+export function restoreText(text: string, language: string, options: RestoreOptions, previous = ''): string {
+  const rules = RESTORE_RULES[primaryLanguage(language)];
+  if (!rules || !text.trim()) return text;
+
+  let restored = text;
+  if (options.numbers && rules.numbers) {
+    const numbers = rules.numbers;
+    restored = restored.split('\n').map(line => formatNumbers(line, numbers)).join('\n');
+  }
+  if (options.punctuation) {
+    restored = punctuate(restored, rules);
+  }
+  if (options.casing && rules.casing) {
+    restored = capitalize(restored, rules, startsSentence(previous));
+  }
+  return restored;
+}
+
+/**
+ * Check stored per-language options
+ */
+export function validateRestoreOptions(raw: unknown): Record<string, RestoreOptions> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return {};
+
+  const options: Record<string, RestoreOptions> = {};
+  for (const [language, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof value !== 'object' || value === null) continue;
+    const entry = value as Partial<Record<RestoreFeature, unknown>>;
+    options[language] = {
+      punctuation: entry.punctuation !== false,
+      casing: entry.casing !== false,
+      numbers: entry.numbers !== false,
+    };
+  }
+  return options;
+}
+
+// Punctuation
+
+function punctuate(text: string, rules: RestoreRules): string {
+  let punctuated = text;
+
+  for (const phrase of rules.introWords ?? []) {
+    const intro = new RegExp(`(^|[${TERMINATORS}]\\s+|\\n)(${pattern(phrase)})(?=\\s+[\\p{L}\\p{N}])`, 'giu');
+    punctuated = punctuated.replace(intro, '$1$2,');
+  }
+
+  for (const phrase of rules.commaBefore ?? []) {
+    const conjunction = new RegExp(`(?<=[\\p{L}\\p{N}])(\\s+)(${pattern(phrase)})(?![\\p{L}\\p{N}])`, 'giu');
+    punctuated = punctuated.replace(conjunction, (match, space: string, word: string, offset: number) => {
+      // Only inside a sentence, after at least two words
+      const clause = punctuated.slice(0, offset).split(/[.!?…;:,\n]/).pop() ?? '';
+      return clause.trim().split(/\s+/).length >= 2 ? `,${space}${word}` : match;
+    });
+  }
+
+  // The end of the last sentence, unless it already has punctuation
+  const body = punctuated.replace(/\s+$/, '');
+  if (!body || END_PUNCTUATION.test(body)) return punctuated;
+
+  const trailing = punctuated.slice(body.length);
+  const sentenceStart = lastSentenceStart(body);
+  const sentence = body.slice(sentenceStart);
+
+  if (!isQuestion(sentence, rules)) {
+    return body + rules.terminator + trailing;
+  }
+  const opener = rules.questionOpener && !sentence.startsWith(rules.questionOpener) ? rules.questionOpener : '';
+  return body.slice(0, sentenceStart) + opener + sentence + rules.question + trailing;
+}
+
+function isQuestion(sentence: string, rules: RestoreRules): boolean {
+  const { bias, starts, ends = {}, endings = {} } = rules.questions;
+  const normalized = sentence
+    .toLowerCase()
+    .replace(/^[¿¡\s]+/, '')
+    .replace(/[\p{P}\s]+$/u, '')
+    .replace(/\s+/g, ' ');
+
+  let score = bias;
+  for (const [phrase, weight] of Object.entries(starts)) {
+    const matches = rules.unspaced
+      ? normalized.startsWith(phrase)
+      : normalized === phrase || normalized.startsWith(`${phrase} `);
+    if (matches) score += weight;
+  }
+  for (const [phrase, weight] of Object.entries(ends)) {
+    if (normalized === phrase || normalized.endsWith(` ${phrase}`)) score += weight;
+  }
+  for (const [suffix, weight] of Object.entries(endings)) {
+    if (normalized.endsWith(suffix)) score += weight;
+  }
+  return score > 0;
+}
+
+function lastSentenceStart(text: string): number {
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (TERMINATORS.includes(text[i]) || text[i] === '\n') {
+      start = i + 1;
+    }
+  }
+  while (start < text.length && /\s/.test(text[start])) start++;
+  return start;
+}
+
+// Casing
+
+function capitalize(text: string, rules: RestoreRules, atSentenceStart: boolean): string {
+  // Sentence starts inside the result
+  let capitalized = text.replace(
+    /([.!?…]\s+|\n)([¿¡"'“‘(]*)(\p{Ll})/gu,
+    (match, gap: string, open: string, letter: string) => gap + open + letter.toUpperCase()
+  );
+
+  // Whole words only, so "i'm" is matched but not "i.e."
+  for (const word of rules.capitalized ?? []) {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${word}(?![\\p{L}\\p{N}]|\\.\\p{L})`, 'giu');
+    capitalized = capitalized.replace(pattern, match => match[0].toUpperCase() + match.slice(1));
+  }
+
+  if (atSentenceStart) {
+    // Not when it starts with a number ("2024 was ...")
+    capitalized = capitalized.replace(/^([^\p{L}\p{N}]*)(\p{L})/u, (match, open: string, letter: string) => open + letter.toUpperCase());
+  }
+  return capitalized;
+}
+
+function startsSentence(previous: string): boolean {
+  const trimmed = previous.replace(/[ \t]+$/, '');
+  if (!trimmed || trimmed.endsWith('\n')) return true;
+  return new RegExp(`[${TERMINATORS}]["'”’)\\]}»」』]*$`).test(trimmed);
+}
+
+// Numbers
+
+type NumberPart = 'unit' | 'teen' | 'ten' | 'hundred' | 'scale';
+
+interface ReadNumber {
+  text: string;       // digits, formatted
+  length: number;     // words read
+  small: boolean;     // a single word below ten, kept as a word unless a unit follows
+}
+
+function formatNumbers(line: string, numbers: NumberWords): string {
+  // "twenty-five" is read as "twenty five"
+  const words = line
+    .replace(/(\p{L}+)-(\p{L}+)/gu, (match, first: string, second: string) =>
+      numbers.values[first.toLowerCase()] !== undefined && numbers.values[second.toLowerCase()] !== undefined
+        ? `${first} ${second}`
+        : match
+    )
+    .split(/\s+/)
+    .filter(Boolean);
+  if (words.length === 0) return line;
+
+  const output: string[] = [];
+  for (let i = 0; i < words.length; ) {
+    const number = readNumber(words, i, numbers);
+    if (!number) {
+      output.push(words[i]);
+      i++;
+      continue;
+    }
+
+    let end = i + number.length;
+    let text = number.text;
+    const trail = trailingPunctuation(words[end - 1]);
+    const unit = trail ? '' : bare(words[end] ?? '');
+
+    if (numbers.prefixUnits[unit]) {
+      const cents = trailingPunctuation(words[end]) ? null : readSubunit(words, end + 2, numbers);
+      text = numbers.prefixUnits[unit] + text + (cents ? numbers.decimalSeparator + cents.digits : '');
+      end += 1 + (cents?.length ?? 0);
+    } else if (numbers.suffixUnits[unit]) {
+      text += numbers.suffixUnits[unit];
+      end += 1;
+    } else if (number.small) {
+      output.push(words[i]);
+      i++;
+      continue;
+    }
+
+    output.push(text + trailingPunctuation(words[end - 1]));
+    i = end;
+  }
+
+  // Keep the line's own leading and trailing spaces
+  const [, leading, , trailing] = line.match(/^(\s*)([\s\S]*?)(\s*)$/) ?? [];
+  return (leading ?? '') + output.join(' ') + (trailing ?? '');
+}
+
+/**
+ * Read a spelled-out (or digit) number starting at words[start]
+ */
+function readNumber(words: string[], start: number, numbers: NumberWords): ReadNumber | null {
+  const first = bare(words[start]);
+  if (/^\d+(\.\d+)?$/.test(first)) {
+    return { text: first, length: 1, small: false };
+  }
+
+  let total = 0;
+  let current = 0;
+  let last: NumberPart | null = null;
+  let lastScale = Infinity;
+  let i = start;
+
+  while (i < words.length) {
+    const word = bare(words[i]);
+    const value = numbers.values[word];
+    const multiplier = numbers.multipliers[word];
+
+    if (value !== undefined) {
+      const part: NumberPart = value < 10 ? 'unit' : value < 20 ? 'teen' : 'ten';
+      const follows = last === null || last === 'hundred' || last === 'scale' || (part === 'unit' && last === 'ten' && value > 0);
+      if (!follows || (value === 0 && last !== null)) break;
+      current += value;
+      last = part;
+    } else if (multiplier === 100) {
+      if (last !== 'unit' && last !== 'teen' && last !== 'ten') break;
+      current *= 100;
+      last = 'hundred';
+    } else if (multiplier !== undefined) {
+      if (last === null || last === 'scale' || current === 0 || multiplier >= lastScale) break;
+      total += current * multiplier;
+      current = 0;
+      lastScale = multiplier;
+      last = 'scale';
+    } else if (word === numbers.joiner && (last === 'hundred' || last === 'scale')) {
+      const next = numbers.values[bare(words[i + 1] ?? '')];
+      if (next === undefined || next === 0 || trailingPunctuation(words[i])) break;
+    } else {
+      break;
+    }
+
+    i++;
+    if (trailingPunctuation(words[i - 1])) break;
+  }
+
+  if (last === null) return null;
+
+  // "nineteen ninety nine", "twenty twenty four": read as a year
+  if (total === 0 && current > 10 && current <= 20 && !trailingPunctuation(words[i - 1])) {
+    const second = readPair(words, i, numbers);
+    if (second) {
+      const value = current * 100 + second.value;
+      const end = i + second.length;
+      return {
+        text: unitFollows(words, end, numbers) ? group(value, numbers.groupSeparator) : String(value),
+        length: end - start,
+        small: false,
+      };
+    }
+  }
+
+  // "three point one four"
+  let decimals = '';
+  if (bare(words[i] ?? '') === numbers.point && !trailingPunctuation(words[i - 1])) {
+    let j = i + 1;
+    while (j < words.length) {
+      const digit = numbers.values[bare(words[j])];
+      if (digit === undefined || digit > 9) break;
+      decimals += digit;
+      j++;
+      if (trailingPunctuation(words[j - 1])) break;
+    }
+    if (decimals) i = j;
+  }
+
+  const value = total + current;
+  const length = i - start;
+  // "two thousand twenty four" is a year: 2024, not 2,024 ("two thousand
+  // five hundred" and "two thousand dollars" are not)
+  const year = total === 2000 && current > 0 && current < 100 && !decimals && !unitFollows(words, i, numbers);
+  const grouped = value >= 1000 && !year ? group(value, numbers.groupSeparator) : String(value);
+
+  return {
+    text: decimals ? grouped + numbers.decimalSeparator + decimals : grouped,
+    length,
+    small: length === 1 && value < 10,
+  };
+}
+
+// A currency or unit word right after the number ends at words[end]
+function unitFollows(words: string[], end: number, numbers: NumberWords): boolean {
+  if (trailingPunctuation(words[end - 1])) return false;
+  const unit = bare(words[end] ?? '');
+  return Boolean(numbers.prefixUnits[unit] || numbers.suffixUnits[unit]);
+}
+
+// A two-digit group (10 to 99), for years
+function readPair(words: string[], start: number, numbers: NumberWords): { value: number; length: number } | null {
+  const first = numbers.values[bare(words[start] ?? '')];
+  if (first === undefined || first < 10) return null;
+
+  const next = numbers.values[bare(words[start + 1] ?? '')];
+  if (first >= 20 && next !== undefined && next > 0 && next < 10 && !trailingPunctuation(words[start])) {
+    return { value: first + next, length: 2 };
+  }
+  return { value: first, length: 1 };
+}
+
+// "... and fifty cents": two decimal digits
+function readSubunit(words: string[], start: number, numbers: NumberWords): { digits: string; length: number } | null {
+  if (bare(words[start - 1] ?? '') !== numbers.joiner) return null;
+
+  const cents = readNumber(words, start, numbers);
+  if (!cents || trailingPunctuation(words[start + cents.length - 1])) return null;
+  if (!numbers.subunit.includes(bare(words[start + cents.length] ?? ''))) return null;
+
+  const value = Number(cents.text.replace(/\D/g, ''));
+  if (!Number.isInteger(value) || value >= 100) return null;
+  return { digits: String(value).padStart(2, '0'), length: cents.length + 2 };
+}
+
+function group(value: number, separator: string): string {
+  return String(value).replace(/\B(?=(\d{3})+(?!\d))/g, separator);
+}
+
+// A word without its trailing punctuation, lower-case
+function bare(word: string): string {
+  return word.replace(/[,.!?;:]+$/, '').toLowerCase();
+}
+
+function trailingPunctuation(word: string | undefined): string {
+  return word?.match(/[,.!?;:]+$/)?.[0] ?? '';
+}
+
+function pattern(phrase: string): string {
+  return phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+}
@@ -0,0 +1,54 @@
+/**
+ * Transcript result model
+ * Shared by the live Web Speech recognizer and the server-side file recognizers
+ */
+
+export interface TranscriptAlternative {
+  text: string;
+  confidence?: number;  // 0 to 1, when the recognizer reports it
+}
+
+export interface TranscriptWord {
+  text: string;
+  start: number;        // seconds
+  end: number;          // seconds
+  confidence?: number;
+}
+
+export interface TranscriptSegment {
+  text: string;
+  start: number;        // seconds from the start of the session / file
+  end: number;          // seconds
+  confidence?: number;
+  alternatives: TranscriptAlternative[];   // best first, includes the chosen text
+  isFinal: boolean;
+  words?: TranscriptWord[];
+}
+
+/**
+ * Spread a segment's duration over its words in proportion to their length
+ * (for recognizers that only report segment-level timing)
+ */
+export function estimateWordTimings(text: string, start: number, end: number): TranscriptWord[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const totalChars = words.reduce((sum, word) => sum + word.length, 0);
+  const duration = Math.max(0, end - start);
+
+  let cursor = start;
+  return words.map(word => {
+    const wordStart = cursor;
+    cursor += totalChars > 0 ? (duration * word.length) / totalChars : 0;
+    return { text: word, start: wordStart, end: cursor };
+  });
+}
+
+/**
+ * Join segment texts into a flat transcript
+ * A segment ending in a line break (a dictated "new line") is not followed by the separator
+ */
+export function segmentsToText(segments: TranscriptSegment[], separator = ' '): string {
+  return segments
+    .map(segment => segment.text)
+    .filter(Boolean)
+    .reduce((text, segment) => (!text || text.endsWith('\n') ? text + segment : text + separator + segment), '');
+}
@@ -0,0 +1,313 @@
+/**
+ * Server-side cache for synthesized speech
+ * Content-addressed by a hash of the request; an in-memory LRU in front of
+ * an on-disk store, both bounded by size and TTL
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+export interface TtsCacheKeyInput {
+  provider: string;
+  text: string;
+  ssml: boolean;
+  voice: string;
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  format: string;
+}
+
+export interface CachedAudio {
+  data: Uint8Array;
+  contentType: string;
+  createdAt: number;    // epoch milliseconds
+}
+
+interface DiskEntry {
+  size: number;         // bytes of audio
+  createdAt: number;    // epoch milliseconds
+}
+
+export interface TtsCacheConfig {
+  memoryBytes: number;  // 0 disables the memory tier
+  diskBytes: number;    // 0 disables the disk tier
+  dir: string;
+  ttl: number;          // seconds
+}
+
+const MB = 1024 * 1024;
+const DEFAULT_MEMORY_MB = 32;
+const DEFAULT_DISK_MB = 256;
+const DEFAULT_TTL = 7 * 24 * 60 * 60;
+
+/**
+ * Read the cache configuration from environment variables
+ */
+export function getTtsCacheConfig(): TtsCacheConfig {
+  const number = (value: string | undefined, fallback: number) =>
+    value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : fallback;
+
+  return {
+    memoryBytes: number(process.env.TTS_CACHE_MEMORY_MB, DEFAULT_MEMORY_MB) * MB,
+    diskBytes: number(process.env.TTS_CACHE_DISK_MB, DEFAULT_DISK_MB) * MB,
+    dir: process.env.TTS_CACHE_DIR || path.join(tmpdir(), 'speech-tts-cache'),
+    ttl: number(process.env.TTS_CACHE_TTL, DEFAULT_TTL),
+  };
+}
+
+/**
+ * Hash of everything that affects the synthesized audio
+ * Whitespace and Unicode normalization differences map to the same key
+ */
+export function ttsCacheKey(input: TtsCacheKeyInput): string {
+  const normalized = [
+    input.provider,
+    input.ssml ? 'ssml' : 'text',
+    input.text.normalize('NFC').trim().replace(/\s+/g, ' '),
+    input.voice,
+    round(input.rate ?? 1),
+    round(input.pitch ?? 1),
+    round(input.volume ?? 1),
+    input.format,
+  ];
+
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * In-memory LRU bounded by total bytes (Map keeps insertion order)
+ */
+class MemoryCache {
+  private entries = new Map<string, CachedAudio>();
+  private size = 0;
+
+  constructor(private maxBytes: number, private ttl: number) {}
+
+  get(key: string): CachedAudio | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.delete(key);
+    if (isExpired(entry.createdAt, this.ttl)) {
+      return null;
+    }
+
+    // Re-insert as most recently used
+    this.entries.set(key, entry);
+    this.size += entry.data.length;
+    return entry;
+  }
+
+  set(key: string, entry: CachedAudio): void {
+    if (entry.data.length > this.maxBytes) return;
+
+    this.delete(key);
+    this.entries.set(key, entry);
+    this.size += entry.data.length;
+
+    for (const [oldest] of this.entries) {
+      if (this.size <= this.maxBytes) break;
+      this.delete(oldest);
+    }
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.size -= entry.data.length;
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * On-disk store: <key>.audio holds the data, <key>.json the metadata
+ * The directory is scanned once; after that an in-memory index (least
+ * recently used first) and running size decide what to evict. The audio
+ * file's mtime is refreshed on every hit, so the order survives restarts
+ */
+class DiskCache {
+  private index: Map<string, DiskEntry> | null = null;
+  private loading: Promise<Map<string, DiskEntry>> | null = null;
+  private size = 0;
+
+  constructor(private dir: string, private maxBytes: number, private ttl: number) {}
+
+  async get(key: string): Promise<CachedAudio | null> {
+    try {
+      const meta = JSON.parse(await readFile(this.metaPath(key), 'utf8'));
+      if (isExpired(meta.createdAt, this.ttl)) {
+        await this.remove(key);
+        return null;
+      }
+
+      const data = await readFile(this.audioPath(key));
+      const now = new Date();
+      await utimes(this.audioPath(key), now, now);
+      this.track(key, { size: data.length, createdAt: meta.createdAt });
+
+      return { data: new Uint8Array(data), contentType: meta.contentType, createdAt: meta.createdAt };
+    } catch {
+      this.untrack(key);
+      return null;
+    }
+  }
+
+  async set(key: string, entry: CachedAudio): Promise<void> {
+    if (entry.data.length > this.maxBytes) return;
+
+    // Scan before writing, so the new entry is not counted twice
+    await this.loadIndex();
+    await mkdir(this.dir, { recursive: true });
+    // Metadata last: an entry without it is never read
+    await writeFile(this.audioPath(key), entry.data);
+    await writeFile(this.metaPath(key), JSON.stringify({ contentType: entry.contentType, createdAt: entry.createdAt }));
+    this.track(key, { size: entry.data.length, createdAt: entry.createdAt });
+    await this.prune();
+  }
+
+  /**
+   * Drop expired entries and the least recently used until under the size limit
+   */
+  private async prune(): Promise<void> {
+    for (const [key, entry] of Array.from(this.index ?? [])) {
+      if (this.size > this.maxBytes || isExpired(entry.createdAt, this.ttl)) {
+        await this.remove(key);
+      }
+    }
+  }
+
+  private loadIndex(): Promise<Map<string, DiskEntry>> {
+    this.loading = this.loading ?? this.scan().then(index => {
+      this.index = index;
+      this.size = Array.from(index.values()).reduce((sum, entry) => sum + entry.size, 0);
+      return index;
+    });
+    return this.loading;
+  }
+
+  /**
+   * Read every entry in the directory, dropping expired and incomplete ones
+   */
+  private async scan(): Promise<Map<string, DiskEntry>> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch {
+      return new Map();
+    }
+
+    const found: (DiskEntry & { key: string; usedAt: number })[] = [];
+    for (const key of names.filter(name => name.endsWith('.json')).map(name => name.slice(0, -5))) {
+      try {
+        const meta = JSON.parse(await readFile(this.metaPath(key), 'utf8'));
+        if (isExpired(meta.createdAt, this.ttl)) {
+          await this.remove(key);
+          continue;
+        }
+        const audio = await stat(this.audioPath(key));
+        found.push({ key, size: audio.size, createdAt: meta.createdAt, usedAt: audio.mtimeMs });
+      } catch {
+        await this.remove(key);
+      }
+    }
+
+    found.sort((a, b) => a.usedAt - b.usedAt);
+    return new Map(found.map(({ key, size, createdAt }) => [key, { size, createdAt }]));
+  }
+
+  // Mark an entry as most recently used (hits before the first scan are not tracked)
+  private track(key: string, entry: DiskEntry): void {
+    if (!this.index) return;
+    this.untrack(key);
+    this.index.set(key, entry);
+    this.size += entry.size;
+  }
+
+  private untrack(key: string): void {
+    const entry = this.index?.get(key);
+    if (entry) {
+      this.size -= entry.size;
+      this.index!.delete(key);
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    this.untrack(key);
+    await rm(this.metaPath(key), { force: true });
+    await rm(this.audioPath(key), { force: true });
+  }
+
+  private audioPath(key: string): string {
+    return path.join(this.dir, `${key}.audio`);
+  }
+
+  private metaPath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+export class TtsCache {
+  private memory: MemoryCache | null;
+  private disk: DiskCache | null;
+  readonly ttl: number;
+
+  constructor(config: TtsCacheConfig) {
+    this.ttl = config.ttl;
+    this.memory = config.memoryBytes > 0 ? new MemoryCache(config.memoryBytes, config.ttl) : null;
+    this.disk = config.diskBytes > 0 ? new DiskCache(config.dir, config.diskBytes, config.ttl) : null;
+  }
+
+  /**
+   * Look up audio, promoting disk hits into memory
+   */
+  async get(key: string): Promise<CachedAudio | null> {
+    const cached = this.memory?.get(key);
+    if (cached) return cached;
+
+    const stored = await this.disk?.get(key);
+    if (stored) {
+      this.memory?.set(key, stored);
+      return stored;
+    }
+
+    return null;
+  }
+
+  /**
+   * Store audio in both tiers; disk errors are logged, not thrown
+   */
+  async set(key: string, data: Uint8Array, contentType: string): Promise<void> {
+    const entry = { data, contentType, createdAt: Date.now() };
+    this.memory?.set(key, entry);
+
+    try {
+      await this.disk?.set(key, entry);
+    } catch (error) {
+      console.warn('TTS cache write failed:', error);
+    }
+  }
+}
+
+let cachedTtsCache: TtsCache | null = null;
+
+/**
+ * Shared cache instance, configured from the environment on first use
+ */
+export function getTtsCache(): TtsCache {
+  if (!cachedTtsCache) {
+    cachedTtsCache = new TtsCache(getTtsCacheConfig());
+  }
+  return cachedTtsCache;
+}
+
+function isExpired(createdAt: number, ttl: number): boolean {
+  return Date.now() - createdAt > ttl * 1000;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,314 @@
+/**
+ * Voice commands for dictation
+ * Final STT results are matched against a per-language grammar: punctuation
+ * and line-break phrases are replaced where they are spoken, while editing
+ * and control commands only count when they are the whole utterance (so
+ * "the sky is clear" is not a "clear" command). Client-safe
+ */
+
+import { estimateWordTimings, TranscriptSegment } from './transcript';
+import { primaryLanguage } from './voices';
+
+export type EditAction = 'undo' | 'deleteLastSentence' | 'clear';
+export type ControlAction = 'stopListening' | 'readBack';
+export type CommandAction = EditAction | ControlAction;
+
+/**
+ * Phrases for one language, lower-case
+ */
+export interface CommandGrammar {
+  inserts: Record<string, string>;          // phrase -> text put in its place
+  commands: Record<string, CommandAction>;  // phrase -> command, when spoken on its own
+}
+
+/**
+ * What a final result does to the transcript
+ */
+export type DictationResult =
+  | { kind: 'text'; text: string; attach: string }  // attach: added to the previous segment
+  | { kind: 'edit'; action: EditAction }
+  | { kind: 'control'; action: ControlAction };
+
+export const COMMAND_LABELS: Record<CommandAction, string> = {
+  undo: 'Remove the last segment',
+  deleteLastSentence: 'Delete the last sentence',
+  clear: 'Clear the transcript',
+  stopListening: 'Stop dictation',
+  readBack: 'Read the transcript aloud',
+};
+
+const EDIT_ACTIONS: CommandAction[] = ['undo', 'deleteLastSentence', 'clear'];
+
+// Keyed by primary language subtag; covers getSupportedLanguages()
+export const COMMAND_GRAMMARS: Record<string, CommandGrammar> = {
+  en: {
+    inserts: {
+      'period': '.', 'full stop': '.', 'comma': ',', 'question mark': '?',
+      'exclamation mark': '!', 'exclamation point': '!', 'colon': ':', 'semicolon': ';',
+      'new line': '\n', 'new paragraph': '\n\n',
+    },
+    commands: {
+      'undo': 'undo', 'scratch that': 'undo', 'delete last sentence': 'deleteLastSentence',
+      'clear': 'clear', 'clear all': 'clear', 'stop listening': 'stopListening',
+      'read it back': 'readBack', 'read back': 'readBack',
+    },
+  },
+  es: {
+    inserts: {
+      'punto': '.', 'coma': ',', 'signo de interrogación': '?', 'signo de exclamación': '!',
+      'dos puntos': ':', 'punto y coma': ';', 'nueva línea': '\n', 'nuevo párrafo': '\n\n',
+    },
+    commands: {
+      'deshacer': 'undo', 'borrar la última frase': 'deleteLastSentence', 'borrar última frase': 'deleteLastSentence',
+      'borrar todo': 'clear', 'dejar de escuchar': 'stopListening', 'léelo': 'readBack', 'leer en voz alta': 'readBack',
+    },
+  },
+  fr: {
+    inserts: {
+      'point': '.', 'virgule': ',', "point d'interrogation": '?', "point d'exclamation": '!',
+      'deux points': ':', 'point-virgule': ';', 'point virgule': ';', 'à la ligne': '\n', 'nouvelle ligne': '\n',
+      'nouveau paragraphe': '\n\n',
+    },
+    commands: {
+      'annuler': 'undo', 'supprimer la dernière phrase': 'deleteLastSentence', 'tout effacer': 'clear',
+      "arrête d'écouter": 'stopListening', "arrêter l'écoute": 'stopListening', 'relis': 'readBack', 'relire': 'readBack',
+    },
+  },
+  de: {
+    inserts: {
+      'punkt': '.', 'komma': ',', 'fragezeichen': '?', 'ausrufezeichen': '!', 'doppelpunkt': ':',
+      'semikolon': ';', 'neue zeile': '\n', 'neuer absatz': '\n\n',
+    },
+    commands: {
+      'rückgängig': 'undo', 'letzten satz löschen': 'deleteLastSentence', 'alles löschen': 'clear',
+      'zuhören beenden': 'stopListening', 'vorlesen': 'readBack',
+    },
+  },
+  it: {
+    inserts: {
+      'punto': '.', 'virgola': ',', 'punto interrogativo': '?', 'punto esclamativo': '!', 'due punti': ':',
+      'punto e virgola': ';', 'a capo': '\n', 'nuova riga': '\n', 'nuovo paragrafo': '\n\n',
+    },
+    commands: {
+      'annulla': 'undo', "cancella l'ultima frase": 'deleteLastSentence', 'cancella tutto': 'clear',
+      'smetti di ascoltare': 'stopListening', 'rileggi': 'readBack',
+    },
+  },
+  pt: {
+    inserts: {
+      'ponto': '.', 'vírgula': ',', 'ponto de interrogação': '?', 'ponto de exclamação': '!', 'dois pontos': ':',
+      'ponto e vírgula': ';', 'nova linha': '\n', 'novo parágrafo': '\n\n',
+    },
+    commands: {
+      'desfazer': 'undo', 'apagar a última frase': 'deleteLastSentence', 'apagar última frase': 'deleteLastSentence',
+      'limpar tudo': 'clear', 'parar de ouvir': 'stopListening', 'ler em voz alta': 'readBack',
+    },
+  },
+  ru: {
+    inserts: {
+      'точка': '.', 'запятая': ',', 'вопросительный знак': '?', 'восклицательный знак': '!', 'двоеточие': ':',
+      'точка с запятой': ';', 'новая строка': '\n', 'новый абзац': '\n\n',
+    },
+    commands: {
+      'отменить': 'undo', 'удалить последнее предложение': 'deleteLastSentence', 'очистить всё': 'clear',
+      'очистить все': 'clear', 'перестань слушать': 'stopListening', 'прочитай вслух': 'readBack',
+    },
+  },
+  ja: {
+    inserts: {
+      '句点': '。', '読点': '、', '疑問符': '？', '感嘆符': '！', '改行': '\n', '新しい段落': '\n\n',
+    },
+    commands: {
+      '取り消し': 'undo', '最後の文を削除': 'deleteLastSentence', 'すべて消去': 'clear',
+      '聞き取り終了': 'stopListening', '読み上げ': 'readBack',
+    },
+  },
+  ko: {
+    inserts: {
+      '마침표': '.', '쉼표': ',', '물음표': '?', '느낌표': '!', '콜론': ':', '세미콜론': ';',
+      '줄 바꿈': '\n', '줄바꿈': '\n', '새 단락': '\n\n',
+    },
+    commands: {
+      '실행 취소': 'undo', '마지막 문장 삭제': 'deleteLastSentence', '모두 지우기': 'clear',
+      '듣기 중지': 'stopListening', '읽어 줘': 'readBack',
+    },
+  },
+  // Simplified and traditional phrases, for zh-CN and zh-TW
+  zh: {
+    inserts: {
+      '句号': '。', '句號': '。', '逗号': '，', '逗號': '，', '问号': '？', '問號': '？',
+      '感叹号': '！', '感嘆號': '！', '冒号': '：', '冒號': '：', '分号': '；', '分號': '；',
+      '换行': '\n', '換行': '\n', '新段落': '\n\n',
+    },
+    commands: {
+      '撤销': 'undo', '撤銷': 'undo', '删除最后一句': 'deleteLastSentence', '刪除最後一句': 'deleteLastSentence',
+      '清除全部': 'clear', '停止聆听': 'stopListening', '停止聆聽': 'stopListening', '朗读': 'readBack', '朗讀': 'readBack',
+    },
+  },
+};
+
+// Phrases in scripts written without spaces are matched anywhere in the text
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+// Dictated text is often lower-case, so a sentence ends at any terminator
+// followed by a space or line break (CJK terminators need neither)
+const SENTENCE_END = /[.!?…]\s+|[。！？]\s*/g;
+
+/**
+ * The grammar for a locale, with optional extra phrases; null if the
+ * language has none
+ */
+export function commandGrammar(language: string, custom?: Partial<CommandGrammar>): CommandGrammar | null {
+  const grammar = COMMAND_GRAMMARS[primaryLanguage(language)];
+  if (!grammar && !custom) return null;
+
+  return {
+    inserts: { ...grammar?.inserts, ...normalizeKeys(custom?.inserts) },
+    commands: { ...grammar?.commands, ...normalizeKeys(custom?.commands) },
+  };
+}
+
+/**
+ * Interpret a final result: a command spoken on its own, or text with its
+ * punctuation and line-break phrases replaced
+ */
+export function parseDictation(text: string, grammar: CommandGrammar): DictationResult {
+  const action = grammar.commands[normalizePhrase(text)];
+  if (action) {
+    return EDIT_ACTIONS.includes(action)
+      ? { kind: 'edit', action: action as EditAction }
+      : { kind: 'control', action: action as ControlAction };
+  }
+
+  let result = '';
+  let attach = '';
+  let cursor = 0;
+
+  for (const match of Array.from(text.matchAll(insertPattern(grammar)))) {
+    const insert = grammar.inserts[normalizePhrase(match[0])];
+    result = trimSpaces(result + text.slice(cursor, match.index));
+    cursor = match.index! + match[0].length;
+
+    // Punctuation spoken first belongs to the end of the previous segment
+    if (result) {
+      result += insert;
+    } else {
+      attach += insert;
+    }
+
+    // Text after a line break starts the line; after ASCII punctuation it
+    // is separated by one space
+    const rest = text.slice(cursor);
+    cursor += rest.length - rest.trimStart().length;
+    if (result && /[.,!?:;]$/.test(insert) && rest.trim()) {
+      result += ' ';
+    }
+  }
+
+  return { kind: 'text', text: (result + text.slice(cursor)).replace(/^ +| +$/g, ''), attach };
+}
+
+/**
+ * Apply a text or edit result to the final segments
+ * "Delete last sentence" works within the last segment, since recognizers
+ * often leave sentences unpunctuated
+ */
+export function applyDictation(
+  segments: TranscriptSegment[],
+  segment: TranscriptSegment,
+  result: Exclude<DictationResult, { kind: 'control' }>
+): TranscriptSegment[] {
+  if (result.kind === 'edit') {
+    switch (result.action) {
+      case 'undo':
+        return segments.slice(0, -1);
+      case 'clear':
+        return [];
+      case 'deleteLastSentence':
+        return deleteLastSentence(segments);
+    }
+  }
+
+  const next = [...segments];
+  let text = result.text;
+
+  if (result.attach) {
+    const previous = next[next.length - 1];
+    if (previous) {
+      // Spoken punctuation replaces punctuation already there ("hello." + "?")
+      const previousText = /^\p{P}/u.test(result.attach)
+        ? trimSpaces(previous.text).replace(/[.!?,;:。！？，、；：]$/, '')
+        : trimSpaces(previous.text);
+      next[next.length - 1] = withText(previous, previousText + result.attach);
+    } else {
+      text = result.attach + text;
+    }
+  }
+
+  if (text.trim()) {
+    next.push(withText(segment, text));
+  }
+  return next;
+}
+
+function lastSentenceStart(text: string): number {
+  let start = 0;
+  for (const match of Array.from(text.matchAll(SENTENCE_END))) {
+    const end = match.index! + match[0].length;
+    if (end < text.length) start = end;
+  }
+  return start;
+}
+
+function deleteLastSentence(segments: TranscriptSegment[]): TranscriptSegment[] {
+  const last = segments[segments.length - 1];
+  if (!last) return segments;
+
+  const kept = last.text.slice(0, lastSentenceStart(last.text)).trimEnd();
+
+  return kept ? [...segments.slice(0, -1), withText(last, kept)] : segments.slice(0, -1);
+}
+
+// A segment with new text; the text becomes its first alternative, like an edit
+function withText(segment: TranscriptSegment, text: string): TranscriptSegment {
+  if (text === segment.text) return segment;
+
+  return {
+    ...segment,
+    text,
+    alternatives: [{ text }, ...segment.alternatives],
+    words: estimateWordTimings(text, segment.start, segment.end),
+  };
+}
+
+function insertPattern(grammar: CommandGrammar): RegExp {
+  const phrases = Object.keys(grammar.inserts)
+    .sort((a, b) => b.length - a.length)   // "punto y coma" before "punto"
+    .map(phrase => {
+      const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+      return UNSPACED.test(phrase) ? escaped : `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`;
+    });
+
+  // (?!) never matches, for a grammar without insert phrases
+  return new RegExp(phrases.join('|') || '(?!)', 'giu');
+}
+
+// Trailing spaces only; dictated line breaks are kept
+function trimSpaces(text: string): string {
+  return text.replace(/[ \t]+$/, '');
+}
+
+function normalizePhrase(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/^[\p{P}\s]+|[\p{P}\s]+$/gu, '')
+    .replace(/\s+/g, ' ');
+}
+
+function normalizeKeys<T>(entries: Record<string, T> | undefined): Record<string, T> {
+  const normalized: Record<string, T> = {};
+  for (const [phrase, value] of Object.entries(entries ?? {})) {
+    normalized[normalizePhrase(phrase)] = value;
+  }
+  return normalized;
+}
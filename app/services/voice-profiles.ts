@@ -0,0 +1,188 @@
+/**
+ * Named voice profiles
+ * A profile bundles a voice, prosody, language and optional SSML defaults.
+ * Built-in profiles come from VOICE_PRESETS; user profiles are saved with the
+ * settings and can be exported to / imported from JSON. Client-safe
+ */
+
+import type { SavedVoice } from './settings';
+import { PROSODY_RANGES, ProsodyField } from './speak-request';
+import { splitSentences } from './text-chunker';
+import { languageLabel } from './voices';
+import { VOICE_PRESETS } from './web-speech-tts';
+
+export type SsmlEmphasis = 'strong' | 'moderate' | 'reduced';
+
+/**
+ * Markup added when plain text is spoken with the profile
+ */
+export interface SsmlDefaults {
+  sentenceBreak?: number;     // ms of silence after each sentence
+  emphasis?: SsmlEmphasis;    // applied to the whole text
+}
+
+export interface VoiceProfile {
+  id: string;
+  name: string;
+  voice: SavedVoice | null;   // null keeps the current voice
+  rate: number;
+  pitch: number;
+  volume: number;
+  language: string;           // BCP-47 locale, e.g. 'en-US'
+  ssml?: SsmlDefaults;
+  builtIn?: boolean;          // from VOICE_PRESETS; cannot be renamed or deleted
+}
+
+// Version of the export file format
+const EXPORT_VERSION = 1;
+
+const MAX_SENTENCE_BREAK = 10000;   // the SSML parser's break limit
+const EMPHASIS: SsmlEmphasis[] = ['strong', 'moderate', 'reduced'];
+
+export class ProfileImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileImportError';
+  }
+}
+
+/**
+ * One read-only profile per VOICE_PRESETS locale
+ */
+export function builtInProfiles(): VoiceProfile[] {
+  const presets: Record<string, { rate: number; pitch: number; volume: number }> = VOICE_PRESETS;
+
+  return Object.entries(presets).map(([language, preset]) => ({
+    id: `preset:${language}`,
+    name: languageLabel(language),
+    voice: null,
+    ...preset,
+    language,
+    builtIn: true,
+  }));
+}
+
+export function createProfile(name: string, values: Omit<VoiceProfile, 'id' | 'name' | 'builtIn'>): VoiceProfile {
+  return { id: newProfileId(), name: name.trim(), ...values };
+}
+
+/**
+ * The profile to apply when switching to a locale: the first user profile
+ * for it, otherwise its built-in preset
+ */
+export function profileForLocale(profiles: VoiceProfile[], locale: string): VoiceProfile | undefined {
+  const matching = profiles.filter(profile => profile.language.toLowerCase() === locale.toLowerCase());
+  return matching.find(profile => !profile.builtIn) ?? matching[0];
+}
+
+/**
+ * Serialize user profiles (built-ins are left out)
+ */
+export function exportProfiles(profiles: VoiceProfile[]): string {
+  const exported = profiles
+    .filter(profile => !profile.builtIn)
+    .map(({ builtIn, ...profile }) => profile);
+
+  return JSON.stringify({ version: EXPORT_VERSION, profiles: exported }, null, 2);
+}
+
+/**
+ * Parse an export file; imported profiles get new IDs so they never replace
+ * existing ones. Throws ProfileImportError for files that are not valid
+ */
+export function importProfiles(json: string): VoiceProfile[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ProfileImportError('The file is not valid JSON');
+  }
+
+  // A bare array of profiles is accepted as well
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { profiles?: unknown } | null)?.profiles;
+  if (!Array.isArray(entries)) {
+    throw new ProfileImportError('The file does not contain a list of profiles');
+  }
+
+  return entries.map((entry, index) => {
+    const profile = validateProfile(entry);
+    if (!profile) {
+      throw new ProfileImportError(`Profile ${index + 1} is missing a name or has invalid settings`);
+    }
+    return { ...profile, id: newProfileId() };
+  });
+}
+
+/**
+ * Check a stored or imported profile; null if it cannot be used
+ * Out-of-range prosody is rejected rather than clamped
+ */
+export function validateProfile(raw: unknown): VoiceProfile | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const entry = raw as Record<string, unknown>;
+
+  if (typeof entry.name !== 'string' || !entry.name.trim()) return null;
+  if (typeof entry.language !== 'string' || !entry.language) return null;
+
+  const rate = prosody('rate', entry.rate);
+  const pitch = prosody('pitch', entry.pitch);
+  const volume = prosody('volume', entry.volume);
+  if (rate === null || pitch === null || volume === null) return null;
+
+  const voice = entry.voice as Partial<SavedVoice> | null | undefined;
+  const ssml = entry.ssml as Partial<SsmlDefaults> | null | undefined;
+
+  return {
+    id: typeof entry.id === 'string' && entry.id ? entry.id : newProfileId(),
+    name: entry.name.trim(),
+    voice:
+      voice && typeof voice.key === 'string'
+        ? { key: voice.key, name: String(voice.name ?? ''), language: String(voice.language ?? '') }
+        : null,
+    rate,
+    pitch,
+    volume,
+    language: entry.language,
+    ssml: ssml && typeof ssml === 'object' ? validateSsmlDefaults(ssml) : undefined,
+  };
+}
+
+/**
+ * Wrap plain text in SSML carrying the profile's defaults
+ * Returns null when the profile has none, so the text is spoken as is
+ */
+export function applySsmlDefaults(text: string, defaults: SsmlDefaults | undefined): string | null {
+  if (!defaults || (!defaults.sentenceBreak && !defaults.emphasis)) return null;
+
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const pause = defaults.sentenceBreak ? `<break time="${defaults.sentenceBreak}ms"/>` : '';
+
+  let body = splitSentences(text)
+    .map(sentence => escape(sentence.text))
+    .join(` ${pause}`);
+  if (defaults.emphasis) {
+    body = `<emphasis level="${defaults.emphasis}">${body}</emphasis>`;
+  }
+  return `<speak>${body}</speak>`;
+}
+
+function validateSsmlDefaults(ssml: Partial<SsmlDefaults>): SsmlDefaults | undefined {
+  const defaults: SsmlDefaults = {};
+
+  if (typeof ssml.sentenceBreak === 'number' && ssml.sentenceBreak > 0) {
+    defaults.sentenceBreak = Math.min(Math.round(ssml.sentenceBreak), MAX_SENTENCE_BREAK);
+  }
+  if (ssml.emphasis && EMPHASIS.includes(ssml.emphasis)) {
+    defaults.emphasis = ssml.emphasis;
+  }
+  return defaults.sentenceBreak || defaults.emphasis ? defaults : undefined;
+}
+
+function prosody(field: ProsodyField, value: unknown): number | null {
+  const { min, max } = PROSODY_RANGES[field];
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : null;
+}
+
+function newProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
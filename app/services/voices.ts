@@ -0,0 +1,197 @@
+/**
+ * Unified voice catalog
+ * Browser (Web Speech) and server provider voices share one shape, so the
+ * picker can list, group and search them together. Client-safe
+ */
+
+export type VoiceGender = 'female' | 'male' | 'neutral' | 'unknown';
+
+export interface Voice {
+  id: string;             // provider-specific ID (Web Speech voice name, server voice ID)
+  name: string;           // display name
+  provider: string;       // 'browser' or the server provider name, e.g. 'tone'
+  language: string;       // BCP-47 tag; 'und' for language-independent voices
+  gender: VoiceGender;
+  sampleRate?: number;    // Hz, when known (browser voices do not report it)
+  styles: string[];       // speaking styles the voice supports, e.g. 'newscast'
+  local?: boolean;        // synthesized on this device
+  default?: boolean;      // the provider's default voice
+}
+
+export const BROWSER_PROVIDER = 'browser';
+
+export type VoiceLocality = 'local' | 'remote';
+
+export interface VoiceFilter {
+  language?: string;        // primary language subtag, e.g. 'en'
+  locality?: VoiceLocality;
+  provider?: string;
+}
+
+// Short preview sentences by primary language subtag
+const PREVIEW_SAMPLES: Record<string, string> = {
+  en: 'Hello! This is how I sound when reading your text.',
+  es: '¡Hola! Así sueno cuando leo tu texto.',
+  fr: 'Bonjour ! Voici ma voix quand je lis votre texte.',
+  de: 'Hallo! So klinge ich, wenn ich Ihren Text vorlese.',
+  it: 'Ciao! Ecco come suono quando leggo il tuo testo.',
+  pt: 'Olá! É assim que eu soo ao ler o seu texto.',
+  nl: 'Hallo! Zo klink ik als ik je tekst voorlees.',
+  ru: 'Привет! Так звучит мой голос, когда я читаю ваш текст.',
+  pl: 'Cześć! Tak brzmię, czytając twój tekst.',
+  tr: 'Merhaba! Metninizi okurken sesim böyle çıkıyor.',
+  ar: 'مرحبًا! هكذا يبدو صوتي عندما أقرأ نصك.',
+  hi: 'नमस्ते! आपका पाठ पढ़ते समय मेरी आवाज़ ऐसी लगती है।',
+  ja: 'こんにちは。テキストを読み上げるときの声はこんな感じです。',
+  ko: '안녕하세요! 텍스트를 읽을 때 제 목소리는 이렇습니다.',
+  zh: '你好！这是我朗读文本时的声音。',
+};
+
+/**
+ * GET /api/voices response body
+ */
+export interface VoicesResponse {
+  provider: string;
+  voices: Voice[];
+}
+
+/**
+ * Key that identifies a voice across providers (IDs are only unique per provider)
+ */
+export function voiceKey(voice: Pick<Voice, 'provider' | 'id'>): string {
+  return `${voice.provider}:${voice.id}`;
+}
+
+export function isServerVoice(voice: Pick<Voice, 'provider'>): boolean {
+  return voice.provider !== BROWSER_PROVIDER;
+}
+
+/**
+ * Describe a Web Speech voice in catalog terms
+ */
+export function fromSpeechSynthesisVoice(voice: SpeechSynthesisVoice): Voice {
+  return {
+    id: voice.name,
+    name: voice.name,
+    provider: BROWSER_PROVIDER,
+    language: voice.lang,
+    gender: 'unknown',
+    styles: [],
+    local: voice.localService,
+    default: voice.default,
+  };
+}
+
+/**
+ * Readable language name, e.g. 'en-US' -> 'English (United States)'
+ */
+export function languageLabel(language: string): string {
+  if (!language || language === 'und') return 'Any language';
+
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
+
+/**
+ * Primary language subtag, e.g. 'en-US' -> 'en'
+ */
+export function primaryLanguage(language: string): string {
+  return language.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Sample sentence for previewing a voice, in the voice's language when
+ * one is available (English otherwise)
+ */
+export function previewSample(language: string): string {
+  return PREVIEW_SAMPLES[primaryLanguage(language)] ?? PREVIEW_SAMPLES.en;
+}
+
+/**
+ * Voices passing every set filter
+ * Language-independent voices ('und') match any language
+ */
+export function filterVoices(voices: Voice[], filter: VoiceFilter): Voice[] {
+  return voices.filter(voice =>
+    (!filter.language || voice.language === 'und' || primaryLanguage(voice.language) === filter.language) &&
+    (!filter.locality || (filter.locality === 'local') === !!voice.local) &&
+    (!filter.provider || voice.provider === filter.provider)
+  );
+}
+
+/**
+ * The wanted voice if it is still available, otherwise the closest match:
+ * same name from the same provider, then same language tag, then same primary language (preferring
+ * the provider of the wanted voice and default voices), then the default voice
+ */
+export function findClosestVoice(
+  voices: Voice[],
+  wanted: { key: string; name: string; language: string } | null
+): Voice | undefined {
+  const fallback = voices.find(voice => voice.default) ?? voices[0];
+  if (!wanted) return fallback;
+
+  const exact = voices.find(voice => voiceKey(voice) === wanted.key);
+  if (exact) return exact;
+
+  const provider = wanted.key.slice(0, wanted.key.indexOf(':'));
+  const rank = (voice: Voice) => (voice.provider === provider ? 0 : 2) + (voice.default ? 0 : 1);
+  const best = (candidates: Voice[]) => candidates.sort((a, b) => rank(a) - rank(b))[0];
+
+  const language = wanted.language.toLowerCase().replace('_', '-');
+  return (
+    voices.find(voice => voice.name === wanted.name && voice.provider === provider) ??
+    best(voices.filter(voice => voice.language.toLowerCase().replace('_', '-') === language)) ??
+    best(voices.filter(voice => language && primaryLanguage(voice.language) === primaryLanguage(language))) ??
+    fallback
+  );
+}
+
+/**
+ * Voices matching every word of the query (name, language, provider, gender or style)
+ */
+export function searchVoices(voices: Voice[], query: string): Voice[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return voices;
+
+  return voices.filter(voice => {
+    const haystack = [
+      voice.name,
+      voice.language,
+      languageLabel(voice.language),
+      voice.provider,
+      isServerVoice(voice) ? 'server' : '',
+      voice.gender,
+      ...voice.styles,
+    ].join(' ').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+}
+
+/**
+ * Group voices by provider, then language, in a stable display order:
+ * browser voices first, groups sorted by label, voices by name
+ */
+export function groupVoices(voices: Voice[]): { label: string; voices: Voice[] }[] {
+  const groups = new Map<string, { label: string; order: string; voices: Voice[] }>();
+
+  for (const voice of voices) {
+    const source = isServerVoice(voice) ? `Server (${voice.provider})` : 'Browser';
+    const label = `${source} · ${languageLabel(voice.language)}`;
+    const order = `${isServerVoice(voice) ? 1 : 0} ${label}`;
+
+    const group = groups.get(label) ?? { label, order, voices: [] };
+    group.voices.push(voice);
+    groups.set(label, group);
+  }
+
+  return Array.from(groups.values())
+    .sort((a, b) => a.order.localeCompare(b.order))
+    .map(({ label, voices }) => ({
+      label,
+      voices: voices.sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+}
@@ -3,17 +3,41 @@
  * Fixed Chrome compatibility
  */
 
+import { decodeAudioBlob } from './audio/decode';
+import { encodeWav } from './audio/wav';
+import type { TranscriptionResult } from './providers/stt-provider';
+import { estimateWordTimings, segmentsToText, TranscriptAlternative, TranscriptSegment } from './transcript';
+
 interface STTOptions {
   audio?: Blob;
   language?: string;
   continuous?: boolean;
   interimResults?: boolean;
+  maxAlternatives?: number;
+}
+
+/**
+ * The browser ended recognition before it started, without reporting an error
+ */
+export class RecognitionEndedError extends Error {
+  constructor() {
+    super('Speech recognition ended before it started');
+    this.name = 'RecognitionEndedError';
+  }
 }
 
 export class SpeechToText {
   private recognition: any;
   private isRecording = false;
 
+  // Timing for the current session (Web Speech results carry no timestamps)
+  private sessionStart = 0;
+  private resultStarts = new Map<number, number>();
+  private segments: TranscriptSegment[] = [];
+
+  private errorCallback: ((error: string) => void) | null = null;
+  private endCallback: (() => void) | null = null;
+
   constructor() {
     // Chrome uses webkitSpeechRecognition
     const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
@@ -38,24 +62,38 @@ export class SpeechToText {
   }
 
   /**
-   * Convert audio blob to speech recognition
+   * Recognize speech from the microphone, or transcribe an audio blob
    */
   async speechToText(options: STTOptions = {}): Promise<string> {
+    const segments = await this.recognizeSegments(options);
+    return segmentsToText(segments) || 'No speech detected';
+  }
+
+  /**
+   * Recognize speech and resolve with the final timed segments
+   */
+  async recognizeSegments(options: STTOptions = {}): Promise<TranscriptSegment[]> {
     const { 
       audio, 
       language = 'en-US', 
       continuous = false, 
-      interimResults = true 
+      interimResults = true,
+      maxAlternatives = 1
     } = options;
 
+    // Audio files go through the server-side recognizer instead of the microphone
+    if (audio) {
+      const result = await this.transcribeFile(audio, language);
+      return result.segments;
+    }
+
     return new Promise(async (resolve, reject) => {
       try {
         this.recognition.continuous = continuous;
         this.recognition.interimResults = interimResults;
         this.recognition.lang = language;
-
-        let finalTranscript = '';
-        let hasResult = false;
+        this.recognition.maxAlternatives = maxAlternatives;
+        this.resetSession();
 
         this.recognition.onstart = () => {
           console.log('Speech recognition started');
@@ -63,24 +101,19 @@ export class SpeechToText {
         };
 
         this.recognition.onresult = (event: any) => {
-          let interimTranscript = '';
-          
           for (let i = event.resultIndex; i < event.results.length; i++) {
-            const transcript = event.results[i][0].transcript;
+            const segment = this.toSegment(event.results[i], i);
             
-            if (event.results[i].isFinal) {
-              finalTranscript += transcript;
-              console.log('Final result:', transcript);
+            if (segment.isFinal) {
+              this.segments.push(segment);
+              console.log('Final result:', segment.text);
             } else {
-              interimTranscript += transcript;
-              console.log('Interim result:', transcript);
+              console.log('Interim result:', segment.text);
             }
           }
-
-          hasResult = true;
           
           // If not continuous, stop after first final result
-          if (!continuous && finalTranscript) {
+          if (!continuous && this.segments.length > 0) {
             this.recognition.stop();
           }
         };
@@ -90,7 +123,7 @@ export class SpeechToText {
           this.isRecording = false;
           
           if (event.error === 'no-speech') {
-            resolve('No speech detected');
+            resolve([]);
           } else if (event.error === 'audio-capture') {
             reject(new Error('No microphone found. Please check your microphone settings.'));
           } else if (event.error === 'not-allowed') {
@@ -103,62 +136,76 @@ export class SpeechToText {
         this.recognition.onend = () => {
           console.log('Speech recognition ended');
           this.isRecording = false;
-          
-          if (hasResult) {
-            resolve(finalTranscript || 'No speech detected');
-          } else {
-            resolve('No speech detected');
-          }
+          resolve(this.getSegments());
         };
 
-        // If audio blob is provided, we need to play it and capture through microphone
-        if (audio) {
-          await this.processAudioBlob(audio, this.recognition);
-        } else {
-          // Start live microphone recognition
-          this.recognition.start();
-        }
+        // Start live microphone recognition
+        this.recognition.start();
 
         // Auto-stop after 30 seconds for safety
         setTimeout(() => {
           if (this.isRecording) {
             this.recognition.stop();
-            resolve(finalTranscript || 'Recognition timeout');
+            resolve(this.getSegments());
           }
         }, 30000);
 
       } catch (error) {
-        reject(new Error(`Speech recognition failed: ${error.message}`));
+        reject(new Error(`Speech recognition failed: ${(error as Error).message}`));
       }
     });
   }
 
   /**
    * Start continuous speech recognition
+   * Rejects if recognition fails to start, or with RecognitionEndedError if
+   * it ends before starting; later errors go to onError(), and onEnd() fires
+   * whenever the browser ends recognition
    */
   async startRecognition(options: STTOptions = {}): Promise<void> {
     return new Promise((resolve, reject) => {
+      let started = false;
+
       try {
         const { 
           language = 'en-US', 
           interimResults = true,
-          continuous = true
+          continuous = true,
+          maxAlternatives = 1
         } = options;
 
         this.recognition.continuous = continuous;
         this.recognition.interimResults = interimResults;
         this.recognition.lang = language;
+        this.recognition.maxAlternatives = maxAlternatives;
+        this.resetSession();
 
         this.recognition.onstart = () => {
           console.log('Continuous speech recognition started');
           this.isRecording = true;
+          started = true;
           resolve();
         };
 
+        this.recognition.onend = () => {
+          console.log('Continuous speech recognition ended');
+          this.isRecording = false;
+          if (!started) {
+            // No-op if onerror has already rejected
+            reject(new RecognitionEndedError());
+          }
+          this.endCallback?.();
+        };
+
         this.recognition.onerror = (event: any) => {
           console.error('Speech recognition error:', event.error);
+
+          if (started) {
+            this.errorCallback?.(event.error);
+            return;
+          }
+
           this.isRecording = false;
-          
           if (event.error === 'not-allowed') {
             reject(new Error('Microphone permission denied. Please allow microphone access in your browser settings.'));
           } else if (event.error === 'audio-capture') {
@@ -171,7 +218,7 @@ export class SpeechToText {
         this.recognition.start();
 
       } catch (error) {
-        reject(new Error(`Failed to start recognition: ${error.message}`));
+        reject(new Error(`Failed to start recognition: ${(error as Error).message}`));
       }
     });
   }
@@ -194,29 +241,36 @@ export class SpeechToText {
     return this.isRecording;
   }
 
+  /**
+   * Get the final segments recognized in the current session
+   */
+  getSegments(): TranscriptSegment[] {
+    return [...this.segments];
+  }
+
   /**
    * Add event listeners for real-time results
+   * Each final result is reported once; interim results report the latest hypothesis
    */
-  onResult(callback: (transcript: string, isFinal: boolean) => void): void {
+  onResult(callback: (transcript: string, isFinal: boolean, segment: TranscriptSegment) => void): void {
     this.recognition.onresult = (event: any) => {
-      let finalTranscript = '';
-      let interimTranscript = '';
+      let interimSegment: TranscriptSegment | null = null;
 
       for (let i = event.resultIndex; i < event.results.length; i++) {
-        const transcript = event.results[i][0].transcript;
+        const segment = this.toSegment(event.results[i], i);
         
-        if (event.results[i].isFinal) {
-          finalTranscript += transcript + ' ';
+        if (segment.isFinal) {
+          this.segments.push(segment);
+          if (segment.text) {
+            callback(segment.text, true, segment);
+          }
         } else {
-          interimTranscript = transcript;
+          interimSegment = segment;
         }
       }
 
-      if (finalTranscript) {
-        callback(finalTranscript.trim(), true);
-      }
-      if (interimTranscript) {
-        callback(interimTranscript, false);
+      if (interimSegment?.text) {
+        callback(interimSegment.text, false, interimSegment);
       }
     };
   }
@@ -225,45 +279,67 @@ export class SpeechToText {
    * Add error event listener
    */
   onError(callback: (error: string) => void): void {
+    this.errorCallback = callback;
     this.recognition.onerror = (event: any) => {
       callback(event.error);
     };
   }
 
   /**
-   * Process audio blob by playing it and capturing through microphone
+   * Add a listener for the end of continuous recognition (stopped, or ended
+   * by the browser after silence or its session limit)
    */
-  private async processAudioBlob(audio: Blob, recognition: any): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        const audioElement = new Audio();
-        audioElement.src = URL.createObjectURL(audio);
-        
-        audioElement.onplay = () => {
-          console.log('Audio playback started, starting recognition...');
-          recognition.start();
-        };
+  onEnd(callback: () => void): void {
+    this.endCallback = callback;
+  }
 
-        audioElement.onended = () => {
-          console.log('Audio playback ended');
-          setTimeout(() => {
-            if (this.isRecording) {
-              recognition.stop();
-            }
-            resolve();
-          }, 1000);
-        };
+  /**
+   * Start timing a new recognition session
+   */
+  private resetSession(): void {
+    this.sessionStart = performance.now();
+    this.resultStarts.clear();
+    this.segments = [];
+  }
 
-        audioElement.onerror = () => {
-          reject(new Error('Failed to play audio'));
-        };
+  /**
+   * Build a timed segment from a SpeechRecognitionResult
+   * Start is when the result was first heard, end is the latest update;
+   * word timings are estimated since the API does not report them
+   */
+  private toSegment(result: any, index: number): TranscriptSegment {
+    const now = (performance.now() - this.sessionStart) / 1000;
+    if (!this.resultStarts.has(index)) {
+      this.resultStarts.set(index, now);
+    }
+    const start = this.resultStarts.get(index)!;
+
+    const alternatives: TranscriptAlternative[] = [];
+    for (let i = 0; i < result.length; i++) {
+      alternatives.push({
+        text: result[i].transcript.trim(),
+        // Chrome reports 0 when no confidence is available
+        confidence: result[i].confidence || undefined
+      });
+    }
 
-        audioElement.play().catch(reject);
+    const best = alternatives[0] ?? { text: '' };
+    return {
+      text: best.text,
+      start,
+      end: now,
+      confidence: best.confidence,
+      alternatives,
+      isFinal: result.isFinal,
+      words: estimateWordTimings(best.text, start, now)
+    };
+  }
 
-      } catch (error) {
-        reject(error);
-      }
-    });
+  /**
+   * Transcribe an audio file (WAV, MP3, WebM, OGG) with timestamps
+   */
+  async transcribeFile(audio: Blob, language = 'en-US'): Promise<TranscriptionResult> {
+    return await transcribeAudioFile(audio, language);
   }
 }
 
@@ -273,6 +349,25 @@ export async function speechToText(options: STTOptions = {}): Promise<string> {
   return await stt.speechToText(options);
 }
 
+// Transcribe an audio file without the microphone (works without Web Speech support)
+// The file is decoded in the browser and sent to /api/transcribe as 16kHz WAV
+export async function transcribeAudioFile(audio: Blob, language = 'en-US'): Promise<TranscriptionResult> {
+  const pcm = await decodeAudioBlob(audio);
+
+  const response = await fetch(`/api/transcribe?language=${encodeURIComponent(language)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'audio/wav' },
+    body: encodeWav(pcm).buffer as ArrayBuffer
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(`Transcription failed: ${error}`);
+  }
+
+  return await response.json();
+}
+
 export function getSupportedLanguages() {
   // Chrome typically supports these languages
   return [
@@ -3,13 +3,70 @@
  * Using browser's built-in speech synthesis
  */
 
-interface TTSOptions {
+import type { AudioFormat } from './audio/formats';
+import { fixWavSizes } from './audio/wav';
+import { PROSODY_RANGES, ProsodyField, readSpeakError, SpeakRequestError } from './speak-request';
+import { parseSsml, SsmlProsody, SsmlSegment } from './ssml';
+import { DETECTABLE_LANGUAGES, detectLanguageRuns } from './language-detect';
+import { chunkText, TextChunk } from './text-chunker';
+import { applyLexicon, LexiconEntry, lexiconToSsml } from './lexicon';
+import { normalizeText, NormalizeOptions } from './text-normalizer';
+import { chainRewrites, RewrittenText } from './text-rewrite';
+import { fromSpeechSynthesisVoice, Voice, VoicesResponse } from './voices';
+
+export interface TTSOptions {
   text: string;
   voice?: string;
   rate?: number;    // 0.1 to 10 (speed)
   pitch?: number;   // 0 to 2 (pitch)
   volume?: number;  // 0 to 1 (volume)
   lang?: string;
+  format?: AudioFormat;  // server-rendered audio only
+  ssml?: boolean;        // text is an SSML document
+  runs?: SpeechRun[];    // per-language voices for plain text (see routeLanguages)
+  lexicon?: LexiconEntry[];   // pronunciations, applied before utterances are built
+  normalize?: NormalizeOptions;   // numbers, dates, addresses, ... spoken as words
+}
+
+/**
+ * A stretch of text spoken in its own language and voice
+ */
+export interface SpeechRun {
+  start: number;      // character offset in the text
+  end: number;        // exclusive
+  lang: string;       // BCP-47 locale for the utterances
+  voice?: string;     // voice name; the browser picks one for lang if unset
+}
+
+export interface RouteOptions {
+  overrides?: Record<string, string>;   // detected language -> language to speak it in
+  preferredVoice?: string;              // used for runs in its language
+  fallback?: string;                    // Latin-script language for short text
+}
+
+export interface SynthesizedSpeech {
+  blob: Blob;
+  mimeType: string;   // e.g. 'audio/wav'
+  duration: number;   // seconds (NaN if the browser cannot decode the format)
+}
+
+export interface SpeechProgress {
+  index: number;      // current chunk (sentence) index
+  total: number;      // number of chunks
+  percent: number;    // 0 to 100, by characters spoken
+}
+
+// Progressive playback needs a format Media Source Extensions can append
+const STREAM_MIME_TYPE = 'audio/mpeg';
+
+// Speaking speed assumed for estimated word timing at rate 1
+const ESTIMATED_CHARS_PER_SECOND = 14;
+
+// One queued utterance, or a silence (SSML <break>) when `silence` is set
+interface QueuedSpeech extends TextChunk {
+  prosody?: SsmlProsody;
+  silence?: number;   // milliseconds
+  run?: SpeechRun;    // language and voice overriding the queue options
 }
 
 export class TextToSpeech {
@@ -17,6 +74,26 @@ export class TextToSpeech {
   private isSpeaking = false;
   private currentUtterance: SpeechSynthesisUtterance | null = null;
 
+  // Utterance queue for the text being spoken
+  private queue: QueuedSpeech[] = [];
+  private queueOptions: TTSOptions | null = null;
+  private queueText = '';   // spoken text (SSML markup removed)
+  private currentIndex = 0;
+  private silenceTimer: ReturnType<typeof setTimeout> | null = null;
+  private pausedInSilence = false;
+
+  private startCallback: (() => void) | null = null;
+  private endCallback: (() => void) | null = null;
+  private errorCallback: ((error: string) => void) | null = null;
+  private progressCallback: ((progress: SpeechProgress) => void) | null = null;
+  private wordCallback: ((charIndex: number, length: number) => void) | null = null;
+
+  // Estimated word timing for voices that never fire boundary events
+  private estimateTimer: ReturnType<typeof setTimeout> | null = null;
+  private estimatedWords: { index: number; length: number }[] = [];
+  private estimatedWordIndex = 0;
+  private boundaryReceived = false;
+
   constructor() {
     this.synthesis = window.speechSynthesis;
     
@@ -26,136 +103,188 @@ export class TextToSpeech {
   }
 
   /**
-   * Convert text to speech and return as Blob (simulated)
-   * Note: Web Speech API doesn't directly support audio blob output,
-   * so we'll play the audio and provide a way to capture it
+   * Convert text to speech and return as an audio Blob
+   * Note: Web Speech API doesn't expose synthesized audio, so the audio
+   * is rendered by the server-side /api/speak route
    */
   async textToSpeech(options: TTSOptions): Promise<Blob> {
-    const { 
-      text, 
-      voice,
-      rate = 1,
-      pitch = 1,
-      volume = 1,
-      lang = 'en-US'
-    } = options;
+    const { blob } = await this.synthesizeAudio(options);
+    return blob;
+  }
 
-    return new Promise(async (resolve, reject) => {
-      try {
-        // Wait for voices to be loaded
-        await this.loadVoices();
-        
-        const utterance = new SpeechSynthesisUtterance(text);
-        this.currentUtterance = utterance;
-        
-        // Set utterance properties
-        utterance.rate = this.clamp(rate, 0.1, 10);
-        utterance.pitch = this.clamp(pitch, 0, 2);
-        utterance.volume = this.clamp(volume, 0, 1);
-        utterance.lang = lang;
-
-        // Select voice if specified
-        if (voice) {
-          const selectedVoice = this.getVoiceByName(voice);
-          if (selectedVoice) {
-            utterance.voice = selectedVoice;
-          }
-        }
+  /**
+   * Render text on the server and return the audio Blob with its metadata
+   */
+  async synthesizeAudio(options: TTSOptions): Promise<SynthesizedSpeech> {
+    const { text, format = 'wav' } = options;
 
-        // Since we can't directly get audio as Blob from Web Speech API,
-        // we'll create a simulated Blob with the audio data
-        // In a real implementation, you might need to use a different approach
-        // or service if you need the actual audio file
-        
-        utterance.onstart = () => {
-          console.log('TTS started');
-          this.isSpeaking = true;
-        };
+    // Allow long documents more time than the 30 second baseline
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), Math.max(30000, text.length * 50));
 
-        utterance.onend = () => {
-          console.log('TTS completed');
-          this.isSpeaking = false;
-          this.currentUtterance = null;
-          
-          // Create a simulated audio blob (empty MP3)
-          // Note: This is a workaround since Web Speech API doesn't provide audio data
-          const emptyAudioBlob = new Blob([new ArrayBuffer(0)], { type: 'audio/mp3' });
-          resolve(emptyAudioBlob);
-        };
+    try {
+      const response = await this.requestAudio(options, format, controller.signal);
 
-        utterance.onerror = (event) => {
-          console.error('TTS error:', event.error);
-          this.isSpeaking = false;
-          this.currentUtterance = null;
-          reject(new Error(`Text-to-speech failed: ${event.error}`));
-        };
+      const mimeType = (response.headers.get('Content-Type') || 'audio/wav').split(';')[0].trim();
+      const data = await response.arrayBuffer();
+      if (mimeType === 'audio/wav') {
+        // Streamed WAV arrives with open-ended size fields
+        fixWavSizes(new Uint8Array(data));
+      }
+      const duration = await this.measureDuration(data);
+
+      return {
+        blob: new Blob([data], { type: mimeType }),
+        mimeType,
+        duration
+      };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error('TTS timeout');
+      }
+      if (error instanceof SpeakRequestError) {
+        throw error;
+      }
+      throw new Error(`Text-to-speech failed: ${(error as Error).message}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
 
-        // Start synthesis
-        this.synthesis.speak(utterance);
+  /**
+   * Stream server-rendered MP3 into a MediaSource, so an audio element can
+   * start playing on the first sentence while the rest is still synthesized
+   * Request errors (e.g. SpeakRequestError) are reported through onError
+   */
+  streamAudio(options: TTSOptions, onError?: (error: Error) => void): MediaSource {
+    const mediaSource = new MediaSource();
+
+    mediaSource.addEventListener('sourceopen', () => {
+      this.pipeToMediaSource(options, mediaSource).catch(error => {
+        console.error('Audio stream failed:', error);
+        onError?.(error);
+        if (mediaSource.readyState === 'open') {
+          mediaSource.endOfStream('network');
+        }
+      });
+    }, { once: true });
+
+    return mediaSource;
+  }
 
-        // Safety timeout
-        setTimeout(() => {
-          if (this.isSpeaking) {
-            this.synthesis.cancel();
-            reject(new Error('TTS timeout'));
-          }
-        }, 30000);
+  private async pipeToMediaSource(options: TTSOptions, mediaSource: MediaSource): Promise<void> {
+    const sourceBuffer = mediaSource.addSourceBuffer(STREAM_MIME_TYPE);
+    const response = await this.requestAudio(options, 'mp3');
 
-      } catch (error) {
-        reject(new Error(`Text-to-speech failed: ${error.message}`));
+    if (!response.body) {
+      throw new Error('Speak route returned no audio stream');
+    }
+
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // Playback was stopped or replaced: stop downloading
+      if (mediaSource.readyState !== 'open') {
+        await reader.cancel();
+        return;
       }
-    });
+
+      await new Promise<void>((resolve, reject) => {
+        sourceBuffer.addEventListener('updateend', () => resolve(), { once: true });
+        sourceBuffer.addEventListener('error', () => reject(new Error('Audio decoding failed')), { once: true });
+        sourceBuffer.appendBuffer(value);
+      });
+    }
+
+    if (mediaSource.readyState === 'open') {
+      mediaSource.endOfStream();
+    }
   }
 
   /**
-   * Speak text immediately (real-time playback)
+   * POST the text to the speak route
    */
-  speak(options: TTSOptions): void {
-    const { 
-      text, 
+  private async requestAudio(options: TTSOptions, format: AudioFormat, signal?: AbortSignal): Promise<Response> {
+    const {
       voice,
       rate = 1,
       pitch = 1,
-      volume = 1,
-      lang = 'en-US'
+      volume = 1
     } = options;
 
+    const { text, ssml } = serverSpeechInput(options);
+
+    const query = new URLSearchParams({ format });
+    if (voice) {
+      query.set('voice', voice);
+    }
+
+    const response = await fetch(`/api/speak?${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text,
+        ssml,
+        rate: this.clampProsody('rate', rate),
+        pitch: this.clampProsody('pitch', pitch),
+        volume: this.clampProsody('volume', volume)
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      throw await readSpeakError(response);
+    }
+    return response;
+  }
+
+  /**
+   * Speak text immediately (real-time playback)
+   * Long text is split into sentences and played as a queue of utterances.
+   * SSML is lowered into utterances with their own prosody, separated by
+   * silences; returns warnings for markup that could not be honoured.
+   * Throws SsmlError for invalid SSML.
+   */
+  speak(options: TTSOptions): string[] {
     // Cancel any ongoing speech
     this.stop();
 
-    const utterance = new SpeechSynthesisUtterance(text);
-    this.currentUtterance = utterance;
-    
-    utterance.rate = this.clamp(rate, 0.1, 10);
-    utterance.pitch = this.clamp(pitch, 0, 2);
-    utterance.volume = this.clamp(volume, 0, 1);
-    utterance.lang = lang;
+    const { queue, text, warnings, queueOptions } = this.buildQueue(options);
+    this.queue = queue;
+    this.queueText = text;
+    this.queueOptions = queueOptions;
+    this.boundaryReceived = false;
 
-    if (voice) {
-      const selectedVoice = this.getVoiceByName(voice);
-      if (selectedVoice) {
-        utterance.voice = selectedVoice;
-      }
+    if (!this.queue.some(item => item.text)) {
+      this.queue = [];
+      return warnings;
     }
 
-    utterance.onstart = () => {
-      console.log('Speech started');
-      this.isSpeaking = true;
-    };
-
-    utterance.onend = () => {
-      console.log('Speech ended');
-      this.isSpeaking = false;
-      this.currentUtterance = null;
-    };
+    this.isSpeaking = true;
+    this.startCallback?.();
+    this.playChunk(0);
+    return warnings;
+  }
 
-    utterance.onerror = (event) => {
-      console.error('Speech error:', event.error);
-      this.isSpeaking = false;
-      this.currentUtterance = null;
-    };
+  /**
+   * The text a voice will speak for these options, after normalization and
+   * lexicon respellings: utterance by utterance for browser voices, or as
+   * sent to the speak route for server voices.
+   * Throws SsmlError for invalid SSML.
+   */
+  previewSpeech(options: TTSOptions, server = false): string {
+    if (server) {
+      const { text, ssml } = serverSpeechInput(options);
+      return ssml ? parseSsml(text).text : text;
+    }
 
-    this.synthesis.speak(utterance);
+    const { queue, queueOptions } = this.buildQueue(options);
+    return queue
+      .filter(chunk => chunk.text)
+      .map(chunk => this.spokenText(chunk, queueOptions).text)
+      .join(' ');
   }
 
   /**
@@ -163,9 +292,14 @@ export class TextToSpeech {
    */
   stop(): void {
     if (this.isSpeaking) {
+      this.clearEstimate();
+      this.clearSilence();
+      this.currentUtterance = null;
       this.synthesis.cancel();
       this.isSpeaking = false;
-      this.currentUtterance = null;
+      this.queue = [];
+      this.queueOptions = null;
+      this.pausedInSilence = false;
       console.log('Speech stopped');
     }
   }
@@ -175,7 +309,12 @@ export class TextToSpeech {
    */
   pause(): void {
     if (this.isSpeaking) {
+      if (this.silenceTimer) {
+        this.clearSilence();
+        this.pausedInSilence = true;
+      }
       this.synthesis.pause();
+      this.clearEstimate();
       console.log('Speech paused');
     }
   }
@@ -184,12 +323,305 @@ export class TextToSpeech {
    * Resume paused speech
    */
   resume(): void {
-    if (this.synthesis.paused) {
+    if (this.pausedInSilence) {
+      // Restart the interrupted silence
+      this.synthesis.resume();
+      this.playChunk(this.currentIndex);
+      console.log('Speech resumed');
+    } else if (this.synthesis.paused) {
       this.synthesis.resume();
+      this.scheduleEstimate();
       console.log('Speech resumed');
     }
   }
 
+  /**
+   * Skip to the next sentence
+   */
+  skip(): void {
+    if (this.isSpeaking) {
+      this.jumpTo(this.currentIndex + 1);
+    }
+  }
+
+  /**
+   * Go back to the previous sentence
+   */
+  previous(): void {
+    if (this.isSpeaking) {
+      this.jumpTo(Math.max(0, this.currentIndex - 1));
+    }
+  }
+
+  /**
+   * Current position in the utterance queue
+   */
+  getProgress(): SpeechProgress {
+    const total = this.queue.length;
+    const textLength = this.queueText.length;
+    const spoken = total > 0 && this.currentIndex < total ? this.queue[this.currentIndex].start : textLength;
+
+    return {
+      index: Math.min(this.currentIndex, Math.max(0, total - 1)),
+      total,
+      percent: textLength > 0 ? Math.round((spoken / textLength) * 100) : 0
+    };
+  }
+
+  /**
+   * Restart playback at the given chunk
+   */
+  private jumpTo(index: number): void {
+    // Detach the current utterance first so its cancel events are ignored
+    this.clearEstimate();
+    this.clearSilence();
+    this.currentUtterance = null;
+    this.synthesis.cancel();
+    if (this.synthesis.paused) {
+      this.synthesis.resume();
+    }
+    this.playChunk(index);
+  }
+
+  /**
+   * Speak one chunk; the next one starts when it ends
+   */
+  private playChunk(index: number): void {
+    if (!this.queueOptions || index >= this.queue.length) {
+      this.finishQueue();
+      return;
+    }
+
+    this.currentIndex = index;
+    this.pausedInSilence = false;
+    const chunk = this.queue[index];
+
+    if (chunk.silence !== undefined) {
+      this.currentUtterance = null;
+      this.silenceTimer = setTimeout(() => {
+        this.silenceTimer = null;
+        this.playChunk(index + 1);
+      }, chunk.silence);
+      return;
+    }
+
+    const options = chunk.run
+      ? { ...this.queueOptions, lang: chunk.run.lang, voice: chunk.run.voice }
+      : this.queueOptions;
+    // Normalization and respellings change the spoken text; boundaries are mapped back to the chunk
+    const spoken = this.spokenText(chunk, options);
+    const utterance = this.createUtterance(spoken.text, options, chunk.prosody);
+    this.currentUtterance = utterance;
+
+    utterance.onstart = () => {
+      if (utterance !== this.currentUtterance) return;
+      console.log(`Speech started (chunk ${index + 1}/${this.queue.length})`);
+      this.progressCallback?.(this.getProgress());
+      this.startEstimate(chunk);
+    };
+
+    utterance.onboundary = (event) => {
+      if (utterance !== this.currentUtterance || event.name !== 'word') return;
+
+      // Real boundaries replace the estimate for the rest of this voice's playback
+      this.boundaryReceived = true;
+      this.clearEstimate();
+
+      // Safari does not report charLength
+      const start = spoken.toSource(event.charIndex);
+      const end = event.charLength ? spoken.toSource(event.charIndex + event.charLength) : start;
+      this.wordCallback?.(chunk.start + start, end - start || this.wordLengthAt(chunk.text, start));
+    };
+
+    utterance.onend = () => {
+      if (utterance !== this.currentUtterance) return;
+      this.clearEstimate();
+      this.playChunk(index + 1);
+    };
+
+    utterance.onerror = (event) => {
+      // Cancelled utterances report 'interrupted' / 'canceled'
+      if (utterance !== this.currentUtterance) return;
+      console.error('Speech error:', event.error);
+      this.clearEstimate();
+      this.isSpeaking = false;
+      this.currentUtterance = null;
+      this.errorCallback?.(event.error);
+    };
+
+    this.synthesis.speak(utterance);
+  }
+
+  /**
+   * Split text (or lower SSML) into the queue of chunks speak() plays
+   */
+  private buildQueue(options: TTSOptions): {
+    queue: QueuedSpeech[];
+    text: string;
+    warnings: string[];
+    queueOptions: TTSOptions;
+  } {
+    if (options.ssml) {
+      const document = parseSsml(options.text);
+      return {
+        queue: this.queueSsml(document.segments),
+        text: document.text,
+        warnings: document.warnings,
+        // xml:lang on <speak> overrides the selected language
+        queueOptions: document.lang ? { ...options, lang: document.lang } : options
+      };
+    }
+
+    return {
+      queue: options.runs?.length ? this.queueRuns(options.text, options.runs) : chunkText(options.text),
+      text: options.text,
+      warnings: [],
+      queueOptions: options
+    };
+  }
+
+  /**
+   * A chunk as spoken: normalized in its language first, so lexicon entries
+   * match the words that are actually said
+   */
+  private spokenText(chunk: QueuedSpeech, options: TTSOptions): RewrittenText {
+    const lexicon = options.lexicon ?? [];
+    if (!options.normalize) {
+      return applyLexicon(chunk.text, lexicon);
+    }
+
+    const lang = chunk.run?.lang ?? options.lang ?? 'en-US';
+    const normalized = normalizeText(chunk.text, lang, options.normalize);
+    return chainRewrites(normalized, applyLexicon(normalized.text, lexicon));
+  }
+
+  /**
+   * Chunk each language run separately, so no utterance mixes languages
+   */
+  private queueRuns(text: string, runs: SpeechRun[]): QueuedSpeech[] {
+    return runs.flatMap(run =>
+      chunkText(text.slice(run.start, run.end)).map(chunk => ({
+        text: chunk.text,
+        start: run.start + chunk.start,
+        end: run.start + chunk.end,
+        run
+      }))
+    );
+  }
+
+  /**
+   * Lower SSML segments into chunked utterances and silences
+   */
+  private queueSsml(segments: SsmlSegment[]): QueuedSpeech[] {
+    const queue: QueuedSpeech[] = [];
+
+    for (const segment of segments) {
+      if (segment.type === 'break') {
+        queue.push({ text: '', start: segment.offset, end: segment.offset, silence: segment.duration });
+        continue;
+      }
+
+      for (const chunk of chunkText(segment.text)) {
+        queue.push({
+          text: chunk.text,
+          start: segment.start + chunk.start,
+          end: segment.start + chunk.end,
+          prosody: segment.prosody
+        });
+      }
+    }
+
+    return queue;
+  }
+
+  private clearSilence(): void {
+    if (this.silenceTimer) {
+      clearTimeout(this.silenceTimer);
+      this.silenceTimer = null;
+    }
+  }
+
+  /**
+   * Emit estimated word positions for a chunk until a real boundary event arrives
+   */
+  private startEstimate(chunk: QueuedSpeech): void {
+    this.clearEstimate();
+    if (this.boundaryReceived) return;
+
+    this.estimatedWords = [];
+    const wordPattern = /\S+/g;
+    let match: RegExpExecArray | null;
+    while ((match = wordPattern.exec(chunk.text)) !== null) {
+      this.estimatedWords.push({ index: chunk.start + match.index, length: match[0].length });
+    }
+    this.estimatedWordIndex = 0;
+    this.scheduleEstimate();
+  }
+
+  private scheduleEstimate(): void {
+    if (this.boundaryReceived || this.estimateTimer || this.estimatedWordIndex >= this.estimatedWords.length) {
+      return;
+    }
+
+    const word = this.estimatedWords[this.estimatedWordIndex++];
+    this.wordCallback?.(word.index, word.length);
+
+    // Counting the following space
+    const prosodyRate = this.queue[this.currentIndex]?.prosody?.rate ?? 1;
+    const rate = this.clampProsody('rate', (this.queueOptions?.rate ?? 1) * prosodyRate);
+    const delay = ((word.length + 1) / (ESTIMATED_CHARS_PER_SECOND * rate)) * 1000;
+    this.estimateTimer = setTimeout(() => {
+      this.estimateTimer = null;
+      this.scheduleEstimate();
+    }, delay);
+  }
+
+  private clearEstimate(): void {
+    if (this.estimateTimer) {
+      clearTimeout(this.estimateTimer);
+      this.estimateTimer = null;
+    }
+  }
+
+  private wordLengthAt(text: string, charIndex: number): number {
+    const match = text.slice(charIndex).match(/^\S+/);
+    return match ? match[0].length : 0;
+  }
+
+  private finishQueue(): void {
+    console.log('Speech ended');
+    this.isSpeaking = false;
+    this.currentUtterance = null;
+    this.currentIndex = this.queue.length;
+    this.progressCallback?.(this.getProgress());
+    this.endCallback?.();
+  }
+
+  private createUtterance(text: string, options: TTSOptions, prosody?: SsmlProsody): SpeechSynthesisUtterance {
+    const { 
+      voice,
+      rate = 1,
+      pitch = 1,
+      volume = 1,
+      lang = 'en-US'
+    } = options;
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = this.clampProsody('rate', rate * (prosody?.rate ?? 1));
+    utterance.pitch = this.clampProsody('pitch', pitch * (prosody?.pitch ?? 1));
+    utterance.volume = this.clampProsody('volume', volume * (prosody?.volume ?? 1));
+    utterance.lang = lang;
+
+    if (voice) {
+      const selectedVoice = this.getVoiceByName(voice);
+      if (selectedVoice) {
+        utterance.voice = selectedVoice;
+      }
+    }
+
+    return utterance;
+  }
+
   /**
    * Check if speech is active
    */
@@ -220,6 +652,39 @@ export class TextToSpeech {
     return voices.filter(voice => voice.lang.startsWith(lang));
   }
 
+  /**
+   * Detect the languages of plain text and pick a voice for each run:
+   * the preferred voice when it speaks the run's language, otherwise the
+   * best match from getVoicesByLang() (default locale, then default voice)
+   */
+  async routeLanguages(text: string, options: RouteOptions = {}): Promise<SpeechRun[]> {
+    const { overrides = {}, preferredVoice, fallback } = options;
+    const voicesByLanguage = new Map<string, SpeechSynthesisVoice | undefined>();
+    const runs: SpeechRun[] = [];
+
+    for (const run of detectLanguageRuns(text, { fallback })) {
+      const language = overrides[run.language] ?? run.language;
+      const locale = DETECTABLE_LANGUAGES[language] ?? language;
+
+      if (!voicesByLanguage.has(language)) {
+        const voices = await this.getVoicesByLang(language);
+        const normalize = (tag: string) => tag.replace('_', '-').toLowerCase();
+        voicesByLanguage.set(
+          language,
+          voices.find(voice => voice.name === preferredVoice) ??
+            voices.find(voice => normalize(voice.lang) === locale.toLowerCase()) ??
+            voices.find(voice => voice.default) ??
+            voices[0]
+        );
+      }
+
+      const voice = voicesByLanguage.get(language);
+      runs.push({ start: run.start, end: run.end, lang: voice?.lang ?? locale, voice: voice?.name });
+    }
+
+    return runs;
+  }
+
   /**
    * Get voice by name
    */
@@ -248,31 +713,56 @@ export class TextToSpeech {
   }
 
   /**
-   * Clamp value between min and max
+   * Decode audio data to get its exact duration in seconds
+   */
+  private async measureDuration(data: ArrayBuffer): Promise<number> {
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    const context = new AudioContextClass();
+    try {
+      const buffer = await context.decodeAudioData(data.slice(0));
+      return buffer.duration;
+    } catch (error) {
+      console.warn('Unable to decode audio for duration:', error);
+      return NaN;
+    } finally {
+      context.close();
+    }
+  }
+
+  /**
+   * Clamp a rate, pitch or volume to the range the speak route accepts
    */
-  private clamp(value: number, min: number, max: number): number {
+  private clampProsody(field: ProsodyField, value: number): number {
+    const { min, max } = PROSODY_RANGES[field];
     return Math.min(Math.max(value, min), max);
   }
 
   /**
    * Add event listeners for speech events
+   * Start/end fire once per speak() call, not per queued sentence
    */
   onStart(callback: () => void): void {
-    if (this.currentUtterance) {
-      this.currentUtterance.onstart = callback;
-    }
+    this.startCallback = callback;
   }
 
   onEnd(callback: () => void): void {
-    if (this.currentUtterance) {
-      this.currentUtterance.onend = callback;
-    }
+    this.endCallback = callback;
   }
 
   onError(callback: (error: string) => void): void {
-    if (this.currentUtterance) {
-      this.currentUtterance.onerror = (event) => callback(event.error);
-    }
+    this.errorCallback = callback;
+  }
+
+  onProgress(callback: (progress: SpeechProgress) => void): void {
+    this.progressCallback = callback;
+  }
+
+  /**
+   * Word being spoken, as a character range in the text passed to speak()
+   * Uses boundary events when the voice emits them, estimated timing otherwise
+   */
+  onWord(callback: (charIndex: number, length: number) => void): void {
+    this.wordCallback = callback;
   }
 }
 
@@ -282,23 +772,80 @@ export async function textToSpeech(options: TTSOptions): Promise<Blob> {
   return await tts.textToSpeech(options);
 }
 
+// Server-rendered audio with MIME type and duration
+export async function synthesizeSpeech(options: TTSOptions): Promise<SynthesizedSpeech> {
+  const tts = new TextToSpeech();
+  return await tts.synthesizeAudio(options);
+}
+
+/**
+ * Text and SSML flag sent to the speak route: plain text is normalized, and
+ * sent as SSML carrying pronunciations when it has lexicon words
+ */
+function serverSpeechInput(options: TTSOptions): { text: string; ssml: boolean } {
+  if (options.ssml) {
+    return { text: options.text, ssml: true };
+  }
+
+  const text = options.normalize
+    ? normalizeText(options.text, options.lang ?? 'en-US', options.normalize).text
+    : options.text;
+  const lexiconSsml = options.lexicon?.length ? lexiconToSsml(text, options.lexicon) : null;
+  return { text: lexiconSsml ?? text, ssml: Boolean(lexiconSsml) };
+}
+
+/**
+ * Whether server audio can be streamed into an audio element (see streamAudio)
+ */
+export function supportsStreamedAudio(): boolean {
+  return typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(STREAM_MIME_TYPE);
+}
+
+/**
+ * Estimated position of the word being spoken `time` seconds into server
+ * audio, which has no boundary events
+ * Characters are spread evenly over the audio's duration, or at the estimated
+ * speaking speed until a streamed response's duration is known
+ */
+export function estimateWordAt(text: string, time: number, duration: number, rate = 1): { charIndex: number; length: number } {
+  const secondsPerChar = Number.isFinite(duration) && duration > 0
+    ? duration / Math.max(text.length, 1)
+    : 1 / (ESTIMATED_CHARS_PER_SECOND * rate);
+  const position = time / secondsPerChar;
+
+  let word = { charIndex: -1, length: 0 };
+  const wordPattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(text)) !== null && match.index <= position) {
+    word = { charIndex: match.index, length: match[0].length };
+  }
+  return word;
+}
+
 // Real-time speech function (no blob return)
 export function speakText(options: TTSOptions): void {
   const tts = new TextToSpeech();
   tts.speak(options);
 }
 
-export async function getAvailableVoices() {
+export async function getAvailableVoices(): Promise<Voice[]> {
   const tts = new TextToSpeech();
   const voices = await tts.getAvailableVoices();
-  
-  return voices.map(voice => ({
-    value: voice.name,
-    label: `${voice.name} (${voice.lang})${voice.default ? ' - Default' : ''}`,
-    lang: voice.lang,
-    localService: voice.localService,
-    default: voice.default
-  }));
+
+  return voices.map(fromSpeechSynthesisVoice);
+}
+
+/**
+ * Voices of the server TTS provider (GET /api/voices)
+ */
+export async function getServerVoices(): Promise<Voice[]> {
+  const response = await fetch('/api/voices');
+  if (!response.ok) {
+    throw await readSpeakError(response);
+  }
+
+  const { voices } = (await response.json()) as VoicesResponse;
+  return voices;
 }
 
 // Common voice presets
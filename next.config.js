@@ -2,6 +2,11 @@
 
 const nextConfig = {
   reactStrictMode: false,
+  experimental: {
+    // ws has optional native add-ons and opusscript loads its own wasm,
+    // so neither can be bundled
+    serverComponentsExternalPackages: ["ws", "opusscript"],
+  },
 };
 
 module.exports = nextConfig;